@@ -4,10 +4,18 @@ import { ControlPanel } from './components/ControlPanel';
 import { LyricEditor } from './components/LyricEditor';
 import { TitleEditor } from './components/TitleEditor';
 import { ProjectManager } from './components/ProjectManager';
-import { BackgroundMedia, MediaType, LyricStyle, LrcLine, AspectRatio, LyricEffect, TitleConfig, TitleLayoutMode, SavedProjectData, TransitionEffect } from './types';
-import { parseLrc, formatTime, getResolution } from './utils';
+import { ImportReport, ImportReportData } from './components/ImportReport';
+import { Id3Import, Id3ImportChoice } from './components/Id3Import';
+import { readId3FromFile, hasId3Content, Id3Tags } from './utils/id3';
+import { BackgroundMedia, MediaType, LyricStyle, LrcLine, LrcTags, TranslationTrack, PendingTranslation, GlossaryEntry, AudioAnalysis, AspectRatio, LyricEffect, TitleConfig, TitleLayoutMode, SavedProjectData, TransitionEffect } from './types';
+import { formatTime, getResolution, foldTranslationLines, syncTranslationTracks, DEFAULT_TRANSLATION_TRACK } from './utils';
+import { parseLyricFile, detectLyricFormat, isBilingualVtt } from './utils/subtitles';
+import { mergeTranslationByTime } from './utils/translationMerge';
 import { saveProjectToDB, loadProjectFromDB } from './utils/db';
-import { Play, Pause, Circle, Download, AlertCircle } from 'lucide-react';
+import { createEditHistory, useHistoryState, useHistoryStatus, useUndoShortcuts } from './utils/history';
+import { renderFrame, getVideoTimes, RenderAssets } from './utils/renderFrame';
+import { evictWaveform } from './utils/waveform';
+import { Play, Pause, Circle, Download, AlertCircle, Undo2, Redo2 } from 'lucide-react';
 
 const DEFAULT_LYRIC_STYLE: LyricStyle = {
   fontSize: 50,
@@ -39,6 +47,9 @@ const DEFAULT_TITLE_STYLE: LyricStyle = {
   animationEffect: LyricEffect.FADE_UP,
 };
 
+// Max timestamp distance (seconds) when aligning a separately timed translation file
+const TRANSLATION_MATCH_TOLERANCE = 1.5;
+
 const DEFAULT_TITLE_CONFIG: TitleConfig = {
     enabled: true,
     layoutMode: TitleLayoutMode.CENTERED,
@@ -55,18 +66,28 @@ function App() {
   // --- State ---
   const [audioSrc, setAudioSrc] = useState<string | null>(null);
   const [audioFile, setAudioFile] = useState<File | null>(null);
-  const [lrcLines, setLrcLines] = useState<LrcLine[]>([]);
-  const [backgrounds, setBackgrounds] = useState<BackgroundMedia[]>([]);
+  const [audioAnalysis, setAudioAnalysis] = useState<AudioAnalysis | null>(null); // Onsets/beats of the current audio
+  // Undo/redo for every edit below, including the ones made inside the modal editors
+  const [history] = useState(createEditHistory);
+  const historyStatus = useHistoryStatus(history);
+  useUndoShortcuts(history);
+
+  const [lrcLines, setLrcLines] = useHistoryState<LrcLine[]>(history, 'Lyrics', []);
+  const [lrcTags, setLrcTags] = useHistoryState<LrcTags>(history, 'Lyric tags', {});
+  const [translationTracks, setTranslationTracks, syncTrackState] = useHistoryState<TranslationTrack[]>(history, 'Translation style', []);
+  const [pendingTranslations, setPendingTranslations] = useHistoryState<PendingTranslation[]>(history, 'Translation review', []);
+  const [glossary, setGlossary] = useHistoryState<GlossaryEntry[]>(history, 'Glossary', []); // Kept in every translation prompt
+  const [backgrounds, setBackgrounds] = useHistoryState<BackgroundMedia[]>(history, 'Playlist', []);
   
-  const [lyricStyle, setLyricStyle] = useState<LyricStyle>(DEFAULT_LYRIC_STYLE);
-  const [titleStyle, setTitleStyle] = useState<LyricStyle>(DEFAULT_TITLE_STYLE);
-  const [titleConfig, setTitleConfig] = useState<TitleConfig>(DEFAULT_TITLE_CONFIG);
+  const [lyricStyle, setLyricStyle] = useHistoryState<LyricStyle>(history, 'Lyric style', DEFAULT_LYRIC_STYLE);
+  const [titleStyle, setTitleStyle] = useHistoryState<LyricStyle>(history, 'Title style', DEFAULT_TITLE_STYLE);
+  const [titleConfig, setTitleConfig] = useHistoryState<TitleConfig>(history, 'Title', DEFAULT_TITLE_CONFIG);
 
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.LANDSCAPE_16_9);
+  const [aspectRatio, setAspectRatio] = useHistoryState<AspectRatio>(history, 'Aspect ratio', AspectRatio.LANDSCAPE_16_9);
   
   // Transition Settings
-  const [transitionEffect, setTransitionEffect] = useState<TransitionEffect>(TransitionEffect.CROSSFADE);
-  const [transitionDuration, setTransitionDuration] = useState<number>(1.5);
+  const [transitionEffect, setTransitionEffect] = useHistoryState<TransitionEffect>(history, 'Transition', TransitionEffect.CROSSFADE);
+  const [transitionDuration, setTransitionDuration] = useHistoryState<number>(history, 'Transition duration', 1.5);
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
@@ -76,6 +97,9 @@ function App() {
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [isTitleEditorOpen, setIsTitleEditorOpen] = useState(false);
   const [isProjectManagerOpen, setIsProjectManagerOpen] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReportData | null>(null);
+  const [id3Import, setId3Import] = useState<{ tags: Id3Tags; fileName: string } | null>(null); // Tags found in the uploaded audio
+  const [lyricPasteText, setLyricPasteText] = useState(''); // Opens the Lyric Studio on its paste box
 
   // --- Refs ---
   const audioRef = useRef<HTMLAudioElement>(null);
@@ -86,43 +110,161 @@ function App() {
   
   // Hidden video elements cache for background videos
   const videoElementsRef = useRef<Map<string, HTMLVideoElement>>(new Map());
+  // Decoded media handed to the frame renderer, by background src
+  const renderAssetsRef = useRef<RenderAssets>({ media: new Map() });
+
+  // Keep one styled track per translation name used in the lyrics (derived, so not an undo step)
+  useEffect(() => {
+    syncTrackState(prev => syncTranslationTracks(prev, lrcLines));
+  }, [lrcLines, translationTracks]);
+
+  // Hidden <video> used to draw a video background; created on upload, load, or when undo restores one
+  const ensureVideoElement = (url: string) => {
+    if (videoElementsRef.current.has(url)) return;
+    const v = document.createElement('video');
+    v.src = url;
+    v.muted = true;
+    v.playsInline = true;
+    v.load(); 
+    videoElementsRef.current.set(url, v);
+  };
+
+  // Images are decoded once here instead of on every frame; entries of removed items are dropped
+  useEffect(() => {
+    const previous = renderAssetsRef.current.media;
+    const media = new Map<string, CanvasImageSource>();
+    backgrounds.forEach(bg => {
+      if (bg.type === MediaType.VIDEO) {
+        ensureVideoElement(bg.src);
+        media.set(bg.src, videoElementsRef.current.get(bg.src)!);
+      } else if (previous.has(bg.src)) {
+        media.set(bg.src, previous.get(bg.src)!);
+      } else {
+        const img = new Image();
+        img.src = bg.src;
+        media.set(bg.src, img);
+      }
+    });
+    renderAssetsRef.current = { media };
+  }, [backgrounds]);
 
   // --- Helpers ---
 
   // Handle Audio Upload
   const handleAudioUpload = (file: File) => {
-    if (audioSrc) URL.revokeObjectURL(audioSrc);
+    if (audioSrc) {
+      URL.revokeObjectURL(audioSrc);
+      evictWaveform(audioSrc);
+    }
     const url = URL.createObjectURL(file);
     setAudioSrc(url);
     setAudioFile(file);
+    setAudioAnalysis(null);
     if (audioRef.current) {
       audioRef.current.load();
     }
+    // A music video: its sound is the song, its picture can run in step with it
+    if (file.type.startsWith('video/')) {
+      if (confirm("Also add this video to the background playlist, kept in sync with the song?")) {
+        addSongVideoBackground(file);
+      }
+      return;
+    }
+    // Offer whatever the file's ID3 tag carries; a file without one is simply played
+    readId3FromFile(file)
+      .then(tags => { if (hasId3Content(tags)) setId3Import({ tags, fileName: file.name }); })
+      .catch(e => console.warn("Could not read ID3 tag", e));
   };
 
-  // Handle LRC
-  const handleLrcUpload = (text: string) => {
-    const lines = parseLrc(text);
-    setLrcLines(lines);
+  const applyId3Import = (choice: Id3ImportChoice) => {
+    if (!id3Import) return;
+    const { tags } = id3Import;
+    setId3Import(null);
+    history.transact('Import audio tags', () => {
+      // Plain lyrics only fill the paste box; the current lines stay until the studio saves
+      if (choice.lyrics === 'synced' && tags.syncedLyrics) {
+        setLrcLines(tags.syncedLyrics);
+        setLrcTags(prev => ({
+          ...prev,
+          title: tags.title || prev.title,
+          artist: tags.artist || prev.artist,
+          album: tags.album || prev.album,
+        }));
+      }
+      if (choice.titles) {
+        setTitleConfig(prev => ({
+          ...prev,
+          title: tags.title || prev.title,
+          artist: tags.artist || prev.artist,
+          subtitle: tags.album || prev.subtitle,
+          composer: tags.composer || prev.composer,
+        }));
+      }
+      if (choice.cover && tags.cover) {
+        const extension = tags.cover.mimeType.split('/')[1] || 'jpg';
+        handleBackgroundUpload([new File([tags.cover.data as BlobPart], `cover.${extension}`, { type: tags.cover.mimeType })]);
+      }
+    });
+    if (choice.lyrics === 'plain' && tags.lyrics) {
+      setLyricPasteText(tags.lyrics);
+      setIsEditorOpen(true);
+    }
+  };
+
+  // Handle LRC / SRT / VTT
+  const handleLrcUpload = (text: string, fileName?: string) => {
+    let parsed = parseLyricFile(text, fileName, { duration: duration || undefined });
+    // Captions with several rows per cue are either wrapped lyrics or bilingual; only the user knows
+    const isCaptions = detectLyricFormat(text, fileName) !== 'lrc';
+    if (isCaptions && !isBilingualVtt(text) && parsed.lines.some(line => line.text.includes('\n'))
+        && confirm("Some cues have several rows. Import the rows after each cue's first as translations?\n\nCancel keeps them as multi-line lyrics.")) {
+      parsed = parseLyricFile(text, fileName, { duration: duration || undefined, cueRowsAsTranslations: true });
+    }
+    const { lines, tags, diagnostics } = parsed;
+    history.transact('Import lyrics', () => {
+      setLrcLines(lines);
+      setLrcTags(tags);
+      // Pre-fill title sequence from ID tags
+      if (tags.title || tags.artist || tags.album) {
+        setTitleConfig(prev => ({
+          ...prev,
+          title: tags.title || prev.title,
+          artist: tags.artist || prev.artist,
+          subtitle: tags.album || prev.subtitle,
+        }));
+      }
+    });
+    setImportReport({ fileName, lineCount: lines.length, diagnostics });
+  };
+
+  // Handle a separately timed translation file: align it to the current lyrics by time
+  const handleTranslationUpload = (text: string, fileName?: string) => {
+    if (lrcLines.length === 0) {
+      alert("Import or create the original lyrics first.");
+      return;
+    }
+    const track = prompt("Name of the translation track:", DEFAULT_TRANSLATION_TRACK)?.trim();
+    if (!track) return;
+
+    const { lines } = parseLyricFile(text, fileName);
+    const result = mergeTranslationByTime(lrcLines, lines, track, TRANSLATION_MATCH_TOLERANCE);
+    history.transact('Merge translation', () => {
+      setLrcLines(result.lines);
+      if (result.pending.length > 0) setPendingTranslations(prev => [...prev, ...result.pending]);
+    });
+    if (result.pending.length > 0) {
+      alert(`${result.pending.length} translated line(s) could not be matched automatically. Review them in the Lyric Studio.`);
+    }
   };
 
   // Handle Backgrounds
-  const handleBackgroundUpload = (files: FileList) => {
+  const handleBackgroundUpload = (files: FileList | File[]) => {
     const newBackgrounds: BackgroundMedia[] = Array.from(files).map((file) => {
       const type = file.type.startsWith('video') ? MediaType.VIDEO : MediaType.IMAGE;
       const url = URL.createObjectURL(file);
       
       // If video, create a hidden video element to read metadata and for playback drawing
-      if (type === MediaType.VIDEO) {
-        if (!videoElementsRef.current.has(url)) {
-            const v = document.createElement('video');
-            v.src = url;
-            v.muted = true;
-            v.playsInline = true;
-            v.load(); 
-            videoElementsRef.current.set(url, v);
-        }
-      }
+      if (type === MediaType.VIDEO) ensureVideoElement(url);
 
       return {
         id: Math.random().toString(36).substr(2, 9),
@@ -194,6 +336,24 @@ function App() {
     setBackgrounds(prev => prev.map(b => b.id === id ? { ...b, duration: dur } : b));
   };
 
+  const toggleBackgroundFollowsSong = (id: string) => {
+    setBackgrounds(prev => prev.map(b => b.id === id ? { ...b, followsSong: !b.followsSong } : b));
+  };
+
+  // The video the audio came from, drawn under the playlist at the song's position
+  const addSongVideoBackground = (file: File) => {
+    const url = URL.createObjectURL(file);
+    ensureVideoElement(url);
+    setBackgrounds(prev => [{
+      id: Math.random().toString(36).substr(2, 9),
+      type: MediaType.VIDEO,
+      src: url,
+      file,
+      duration: 0,
+      followsSong: true,
+    }, ...prev], { label: 'Add song video' });
+  };
+
   // --- Project Persistence ---
   
   const handleSaveProject = async (name: string) => {
@@ -210,12 +370,18 @@ function App() {
           transitionEffect,
           transitionDuration,
           lrcLines,
+          lrcTags,
+          translationTracks,
+          pendingTranslations,
+          glossary,
           audioFileName: audioFile?.name,
+          audioAnalysis: audioAnalysis ?? undefined,
           backgrounds: backgrounds.map(bg => ({
               id: bg.id,
               type: bg.type,
               duration: bg.duration,
-              fileName: bg.file.name
+              fileName: bg.file.name,
+              followsSong: bg.followsSong
           }))
       };
 
@@ -232,7 +398,10 @@ function App() {
       // 1. Clear current state
       setIsPlaying(false);
       if (audioRef.current) audioRef.current.pause();
-      if(audioSrc) URL.revokeObjectURL(audioSrc);
+      if(audioSrc) {
+          URL.revokeObjectURL(audioSrc);
+          evictWaveform(audioSrc);
+      }
       backgrounds.forEach(bg => URL.revokeObjectURL(bg.src));
       
       const { data, audioBlob, backgroundBlobs } = await loadProjectFromDB(id);
@@ -242,7 +411,12 @@ function App() {
       setTitleStyle(data.titleStyle);
       setTitleConfig(data.titleConfig);
       setAspectRatio(data.aspectRatio);
-      setLrcLines(data.lrcLines);
+      // Legacy projects stored translations as duplicate same-timestamp lines
+      setLrcLines(foldTranslationLines(data.lrcLines));
+      setLrcTags(data.lrcTags || {});
+      setTranslationTracks(data.translationTracks || []);
+      setPendingTranslations(data.pendingTranslations || []);
+      setGlossary(data.glossary || []);
       
       // Support legacy projects
       if(data.transitionEffect) setTransitionEffect(data.transitionEffect);
@@ -253,9 +427,11 @@ function App() {
           const url = URL.createObjectURL(audioBlob);
           setAudioSrc(url);
           setAudioFile(new File([audioBlob], data.audioFileName || 'audio.mp3', { type: audioBlob.type }));
+          setAudioAnalysis(data.audioAnalysis ?? null);
       } else {
           setAudioSrc(null);
           setAudioFile(null);
+          setAudioAnalysis(null);
       }
 
       // 4. Restore Backgrounds
@@ -266,27 +442,22 @@ function App() {
               const url = URL.createObjectURL(blob);
               const file = new File([blob], bgMeta.fileName, { type: blob.type });
               
-              if (bgMeta.type === MediaType.VIDEO) {
-                 if (!videoElementsRef.current.has(url)) {
-                    const v = document.createElement('video');
-                    v.src = url;
-                    v.muted = true;
-                    v.playsInline = true;
-                    v.load(); 
-                    videoElementsRef.current.set(url, v);
-                }
-              }
+              if (bgMeta.type === MediaType.VIDEO) ensureVideoElement(url);
 
               restoredBackgrounds.push({
                   id: bgMeta.id,
                   type: bgMeta.type,
                   src: url,
                   file,
-                  duration: bgMeta.duration
+                  duration: bgMeta.duration,
+                  followsSong: bgMeta.followsSong
               });
           }
       });
       setBackgrounds(restoredBackgrounds);
+
+      // A loaded project starts a fresh history
+      history.clear();
   };
 
   const handleExportConfig = () => {
@@ -295,6 +466,9 @@ function App() {
           titleStyle,
           titleConfig,
           lrcLines,
+          lrcTags,
+          translationTracks,
+          glossary,
           aspectRatio,
           transitionEffect,
           transitionDuration,
@@ -315,530 +489,22 @@ function App() {
 
   // --- Canvas Logic ---
 
-  const drawScaledMedia = useCallback((ctx: CanvasRenderingContext2D, media: HTMLImageElement | HTMLVideoElement, cw: number, ch: number, scaleFactor: number = 1, opacity: number = 1) => {
-     let mw = 0, mh = 0;
-     if (media instanceof HTMLVideoElement) {
-         if (media.videoWidth === 0) return;
-         mw = media.videoWidth;
-         mh = media.videoHeight;
-     } else {
-         if (media.naturalWidth === 0) return; // Not loaded
-         mw = media.naturalWidth;
-         mh = media.naturalHeight;
-     }
-
-     ctx.globalAlpha = opacity;
-     
-     // Calculate 'cover' fit
-     const ratio = Math.max(cw / mw, ch / mh) * scaleFactor;
-     const dw = mw * ratio;
-     const dh = mh * ratio;
-     const x = (cw - dw) / 2;
-     const y = (ch - dh) / 2;
-
-     ctx.drawImage(media, x, y, dw, dh);
-     ctx.globalAlpha = 1.0; // Reset
-  }, []);
-
   const drawCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
-
-    // 1. Clear
-    ctx.fillStyle = '#000';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // 2. Determine Backgrounds & Transitions
-    if (backgrounds.length > 0) {
-      // Build playlist timeline
-      let totalCycleDuration = 0;
-      const playlist = backgrounds.map(bg => {
-         let duration = bg.duration;
-         if (bg.type === MediaType.VIDEO) {
-             const v = videoElementsRef.current.get(bg.src);
-             // Default auto duration if 0
-             if (duration === 0) {
-                 if (v && v.duration && !isNaN(v.duration) && v.duration !== Infinity) {
-                     duration = v.duration;
-                 } else {
-                     duration = 10;
-                 }
-             }
-         }
-         const start = totalCycleDuration;
-         totalCycleDuration += duration;
-         return { ...bg, start, end: totalCycleDuration, effectiveDuration: duration };
-      });
-
-      if (totalCycleDuration > 0) {
-        const loopTime = currentTime % totalCycleDuration;
-        const currentIndex = playlist.findIndex(item => loopTime >= item.start && loopTime < item.end);
-        
-        if (currentIndex !== -1) {
-          const currentItem = playlist[currentIndex];
-          const timeRemaining = currentItem.end - loopTime;
-          
-          // Should we transition?
-          const inTransition = timeRemaining <= transitionDuration && backgrounds.length > 1;
-          
-          // Prepare Draw Function
-          const renderItem = (item: typeof playlist[0], alpha: number = 1, scale: number = 1, shake: boolean = false) => {
-               ctx.save();
-               if (shake) {
-                   const shakeAmount = 20 * alpha; // Shake intensity
-                   const dx = (Math.random() - 0.5) * shakeAmount;
-                   const dy = (Math.random() - 0.5) * shakeAmount;
-                   ctx.translate(dx, dy);
-               }
-
-               if (item.type === MediaType.IMAGE) {
-                    const img = new Image();
-                    img.src = item.src;
-                    drawScaledMedia(ctx, img, canvas.width, canvas.height, scale, alpha);
-               } else if (item.type === MediaType.VIDEO) {
-                    const v = videoElementsRef.current.get(item.src);
-                    if (v) {
-                         // Sync video time relative to item start
-                         // This is tricky for looping playlist.
-                         // Calculate time relative to the START of this item's slot in the loop
-                         // We need to handle the case where we are 'transitioning to' this video
-                         // or 'transitioning from' this video.
-                         
-                         // Current Logic: Sync based on loopTime.
-                         // For next item (during transition), loopTime would technically be 'future'.
-                         // But we want it to start from 0.
-                         
-                         let videoTime = 0;
-                         if (item === currentItem) {
-                             videoTime = loopTime - item.start;
-                         } else {
-                             // It's the next item
-                             videoTime = 0 + (transitionDuration - timeRemaining); 
-                             // Wait, if we are crossfading to next, next starts at 0 relative to its own start time?
-                             // Ideally yes.
-                             videoTime = (transitionDuration - timeRemaining); 
-                         }
-
-                         const sourceDuration = (v.duration && v.duration !== Infinity) ? v.duration : 1;
-                         const videoPointer = videoTime % sourceDuration;
-
-                         // Sync only if significant drift to avoid stuttering
-                         if (Math.abs(v.currentTime - videoPointer) > 0.3) {
-                             v.currentTime = videoPointer;
-                         }
-                         
-                         if (isPlaying && v.paused) v.play().catch(() => {});
-                         if (!isPlaying && !v.paused) v.pause();
-
-                         drawScaledMedia(ctx, v, canvas.width, canvas.height, scale, alpha);
-                    }
-               }
-               ctx.restore();
-          };
-
-          // --- RENDERING LOGIC ---
-          
-          if (!inTransition || transitionEffect === TransitionEffect.NONE) {
-              // Just Draw Current
-              renderItem(currentItem);
-          } else {
-              // TRANSITION MODE
-              const nextIndex = (currentIndex + 1) % playlist.length;
-              const nextItem = playlist[nextIndex];
-              const progress = 1 - (timeRemaining / transitionDuration); // 0 to 1
-
-              // 1. Crossfade
-              if (transitionEffect === TransitionEffect.CROSSFADE) {
-                  renderItem(currentItem, 1); // Base
-                  renderItem(nextItem, progress); // Overlay
-              } 
-              // 2. Flash Black
-              else if (transitionEffect === TransitionEffect.FLASH_BLACK) {
-                  // 0 - 0.5: Fade out Current to Black
-                  // 0.5 - 1: Fade in Next from Black
-                  if (progress < 0.5) {
-                      const fadeOut = 1 - (progress * 2);
-                      renderItem(currentItem, fadeOut);
-                  } else {
-                      const fadeIn = (progress - 0.5) * 2;
-                      renderItem(nextItem, fadeIn);
-                  }
-              }
-              // 3. Zoom Out (Current zooms out and fades, Next appears)
-              else if (transitionEffect === TransitionEffect.ZOOM_OUT) {
-                  const scale = 1 + (progress * 0.2); // 1.0 -> 1.2
-                  renderItem(currentItem, 1 - progress, scale);
-                  renderItem(nextItem, progress); // Next fades in normally
-              }
-              // 4. Glitch Shake
-              else if (transitionEffect === TransitionEffect.SHAKE) {
-                  // Only shake during the middle of transition
-                  const intensity = Math.sin(progress * Math.PI); 
-                  
-                  // RGB Split effect hack: Draw multiple times with slight offset/color filter?
-                  // Canvas 2D filters "drop-shadow" can mimic glitch channels slightly but expensive.
-                  // Let's stick to shake + simple overlay.
-                  
-                  renderItem(currentItem, 1, 1, true); // Shake current
-                  
-                  // Color Dodge overlay? 
-                  ctx.globalCompositeOperation = 'lighter';
-                  renderItem(nextItem, progress, 1, true); // Shake next
-                  ctx.globalCompositeOperation = 'source-over';
-              }
-          }
-        }
-      }
-    }
-
-    // Common overlay helper
-    const drawOverlay = (opacity: number) => {
-        if (opacity > 0) {
-            ctx.fillStyle = `rgba(0,0,0,${opacity})`;
-            ctx.fillRect(0,0, canvas.width, canvas.height);
-        }
-    };
-    
-    // Determine active stage
-    const isTitleActive = titleConfig.enabled && currentTime < titleConfig.duration;
-    
-    if (isTitleActive) {
-        drawOverlay(titleStyle.bgOverlayOpacity);
-    } else {
-        drawOverlay(lyricStyle.bgOverlayOpacity);
-    }
-
-
-    // -- Helper for text drawing with Effects --
-    const drawTextWithEffects = (
-        text: string, 
-        tx: number, 
-        ty: number, 
-        style: LyricStyle,
-        color: string, 
-        opacity: number = 1, 
-        scale: number = 1, 
-        blurAmount: number = 0,
-        isVertical: boolean = false
-    ) => {
-        ctx.save();
-        ctx.translate(tx, ty);
-        ctx.scale(scale, scale);
-        ctx.globalAlpha = opacity;
-        
-        if (blurAmount > 0) {
-            ctx.filter = `blur(${blurAmount}px)`;
-        }
-
-        ctx.font = `bold ${style.fontSize}px "${style.fontFamily}", sans-serif`;
-
-        // Pre-configure Shadow/Glow
-        ctx.shadowColor = style.shadowColor;
-        ctx.shadowBlur = style.shadowBlur;
-
-        const drawPass = (fillColor: string, extraGlow: boolean) => {
-             ctx.fillStyle = fillColor;
-             if (extraGlow && style.glowBlur > 0) {
-                 ctx.shadowColor = style.glowColor;
-                 ctx.shadowBlur = style.glowBlur;
-                 ctx.fillStyle = style.glowColor;
-             }
-
-             if (isVertical) {
-                 const chars = text.split('');
-                 let currentY = 0;
-                 // Center horizontally relative to the tx line
-                 ctx.textAlign = 'center';
-                 ctx.textBaseline = 'middle';
-                 
-                 chars.forEach(char => {
-                     // Check for ASCII/Rotated characters vs CJK
-                     // Simple check: if ASCII, maybe rotate? Standard CJK is upright.
-                     // For simplicity, we draw all upright centered.
-                     ctx.fillText(char, 0, currentY);
-                     currentY += style.fontSize * 1.1; // Line height
-                 });
-             } else {
-                 ctx.fillText(text, 0, 0);
-             }
-        };
-
-        // Pass 1: Optional Extra Glow (if configured)
-        if (style.glowBlur > 0) {
-            drawPass(style.glowColor, true);
-        }
-
-        // Pass 2: Main Text
-        // Reset shadow for main text if it was changed for glow
-        ctx.shadowColor = style.shadowColor;
-        ctx.shadowBlur = style.shadowBlur;
-        drawPass(color, false);
-
-        ctx.restore();
-    };
-
-    // 4. Draw Title / Credits
-    if (isTitleActive) {
-        
-        // --- Calculate Title Elements ---
-        interface TitleElement {
-            text: string;
-            type: 'title' | 'subtitle' | 'credit' | 'label';
-            delay: number; // Stagger delay in seconds
-            fontSizeMult: number;
-        }
-
-        const elements: TitleElement[] = [];
-        let staggerTimer = 0;
-        const staggerStep = 0.4; // 400ms between items
-
-        if (titleConfig.title) {
-            elements.push({ text: titleConfig.title, type: 'title', delay: staggerTimer, fontSizeMult: 1.0 });
-            staggerTimer += staggerStep;
-        }
-        if (titleConfig.subtitle) {
-            elements.push({ text: titleConfig.subtitle, type: 'subtitle', delay: staggerTimer, fontSizeMult: 0.6 });
-            staggerTimer += staggerStep;
-        }
-        if (titleConfig.artist) {
-            elements.push({ text: titleConfig.artist, type: 'credit', delay: staggerTimer, fontSizeMult: 0.5 });
-            staggerTimer += staggerStep;
-        }
-
-        // Combine tech credits
-        const techCredits = [
-            titleConfig.author ? `Lyrics: ${titleConfig.author}` : null,
-            titleConfig.composer ? `Music: ${titleConfig.composer}` : null,
-            titleConfig.producer ? `Prod: ${titleConfig.producer}` : null,
-        ].filter(Boolean);
-
-        techCredits.forEach(tc => {
-            if (tc) {
-                 elements.push({ text: tc, type: 'credit', delay: staggerTimer, fontSizeMult: 0.4 });
-                 staggerTimer += 0.2; // faster for list
-            }
-        });
-
-        // --- Render Based on Layout ---
-        const cx = canvas.width * titleStyle.positionX;
-        const cy = canvas.height * titleStyle.positionY;
-
-        // Common Exit Logic
-        const exitDuration = 1.0;
-        const timeRemaining = titleConfig.duration - currentTime;
-        let globalExitAlpha = 1;
-        if (timeRemaining < exitDuration) {
-            globalExitAlpha = Math.max(0, timeRemaining / exitDuration);
-        }
-
-        elements.forEach((el, index) => {
-             // Calculate Local Time for Animation
-             const elLocalTime = currentTime - el.delay;
-             if (elLocalTime < 0) return; // Not started yet
-
-             // Animation Progress (0 to 1 for entry)
-             const entryDuration = 1.0;
-             const progress = Math.min(1, elLocalTime / entryDuration);
-             const ease = 1 - Math.pow(1 - progress, 3); // cubic ease out
-
-             const currentFontSize = titleStyle.fontSize * el.fontSizeMult;
-             const effectiveStyle = { ...titleStyle, fontSize: currentFontSize };
-
-             // --- Calculate Position ---
-             let x = cx;
-             let y = cy;
-
-             if (titleConfig.layoutMode === TitleLayoutMode.CENTERED) {
-                 ctx.textAlign = 'center';
-                 ctx.textBaseline = 'middle';
-                 // Simple vertical stacking
-                 // Calculate offset based on index and font sizes approximately
-                 // This is a rough estimation, for perfect layout we'd measure.
-                 const totalHeightEstimate = elements.reduce((acc, e) => acc + (titleStyle.fontSize * e.fontSizeMult * 1.5), 0);
-                 const startY = cy - (totalHeightEstimate / 2);
-                 
-                 let yOffset = 0;
-                 for(let i=0; i<index; i++) {
-                     yOffset += titleStyle.fontSize * elements[i].fontSizeMult * 1.5;
-                 }
-                 y = startY + yOffset + (titleStyle.fontSize * el.fontSizeMult / 2); // Center of line
-
-             } else if (titleConfig.layoutMode === TitleLayoutMode.VERTICAL_RIGHT) {
-                 // Right to left stacking
-                 const totalWidthEstimate = elements.reduce((acc, e) => acc + (titleStyle.fontSize * e.fontSizeMult * 1.5), 0);
-                 const startX = cx + (totalWidthEstimate / 2);
-
-                 let xOffset = 0;
-                 for(let i=0; i<index; i++) {
-                     xOffset += titleStyle.fontSize * elements[i].fontSizeMult * 1.5;
-                 }
-                 x = startX - xOffset - (titleStyle.fontSize * el.fontSizeMult / 2);
-                 y = cy - (currentFontSize * el.text.length * 1.1 / 2);
-
-             } else if (titleConfig.layoutMode === TitleLayoutMode.CINEMATIC) {
-                 // Title Huge Center, Subtitle below, Credits at bottom spread
-                 ctx.textAlign = 'center';
-                 ctx.textBaseline = 'middle';
-
-                 if (el.type === 'title') {
-                     y = cy - 40;
-                 } else if (el.type === 'subtitle') {
-                     y = cy + currentFontSize;
-                 } else {
-                     // Push credits to bottom
-                     y = canvas.height * 0.85 + (index - 2) * currentFontSize * 1.5;
-                 }
-             }
-
-             // --- Apply Effects ---
-             let alpha = globalExitAlpha;
-             let scale = 1;
-             let yAnimOffset = 0;
-
-             if (titleStyle.animationEffect === LyricEffect.FADE_UP) {
-                 alpha *= ease;
-                 yAnimOffset = (1 - ease) * 50;
-                 if (titleConfig.layoutMode === TitleLayoutMode.VERTICAL_RIGHT) {
-                      yAnimOffset = 0; // Don't slide vertical text up, maybe slide opacity only or slide left?
-                      // Let's slide left for vertical
-                      x += (1-ease) * 30;
-                 } else {
-                     y += yAnimOffset;
-                 }
-             } else if (titleStyle.animationEffect === LyricEffect.TYPEWRITER) {
-                 // Typewriter Logic
-                 const charCount = el.text.length;
-                 const typeDuration = 1.5; 
-                 const visibleChars = Math.floor(charCount * Math.min(1, elLocalTime / typeDuration));
-                 // Mutate text for display
-                 el.text = el.text.substring(0, visibleChars);
-             } else if (titleStyle.animationEffect === LyricEffect.SCATTER) {
-                 // Entrance scatter? Or simple fade
-                 alpha *= ease;
-                 scale = 0.5 + ease * 0.5;
-             } else {
-                 alpha *= ease;
-             }
-
-             drawTextWithEffects(
-                 el.text, 
-                 x, 
-                 y, 
-                 effectiveStyle, 
-                 titleStyle.activeColor, 
-                 alpha, 
-                 scale, 
-                 0, 
-                 titleConfig.layoutMode === TitleLayoutMode.VERTICAL_RIGHT
-             );
-        });
-
-    } 
-    // 5. Draw Lyrics
-    else if (lrcLines.length > 0) {
-      const activeIndex = lrcLines.findIndex((line, i) => {
-        const nextLine = lrcLines[i + 1];
-        if (!nextLine) return currentTime >= line.time;
-        return currentTime >= line.time && currentTime < nextLine.time;
-      });
-
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      const x = canvas.width * lyricStyle.positionX;
-      const baseY = canvas.height * lyricStyle.positionY;
-
-      // -- Draw Active Line --
-      if (activeIndex !== -1) {
-          const line = lrcLines[activeIndex];
-          const nextLineTime = lrcLines[activeIndex + 1]?.time || (line.time + 5);
-          const duration = nextLineTime - line.time;
-          const progress = Math.max(0, Math.min(1, (currentTime - line.time) / duration));
-
-          // Effect Logic
-          if (lyricStyle.animationEffect === LyricEffect.FADE_UP) {
-              const entryDuration = 0.5; // seconds
-              const entryProgress = Math.min(1, (currentTime - line.time) / entryDuration);
-              const ease = 1 - Math.pow(1 - entryProgress, 3); // easeOutCubic
-              
-              const yOffset = (1 - ease) * 30; // Slide up 30px
-              const opacity = ease;
-              drawTextWithEffects(line.text, x, baseY + yOffset, lyricStyle, lyricStyle.activeColor, opacity);
-
-          } else if (lyricStyle.animationEffect === LyricEffect.TYPEWRITER) {
-              const charCount = line.text.length;
-              const typeDuration = Math.min(duration * 0.8, 2); 
-              const visibleChars = Math.floor(charCount * Math.min(1, (currentTime - line.time) / typeDuration));
-              const textToShow = line.text.substring(0, visibleChars);
-              drawTextWithEffects(textToShow, x, baseY, lyricStyle, lyricStyle.activeColor);
-
-          } else if (lyricStyle.animationEffect === LyricEffect.KARAOKE) {
-              // 1. Draw Inactive base
-              drawTextWithEffects(line.text, x, baseY, lyricStyle, lyricStyle.fontColor);
-              
-              // 2. Draw Active Overlay with Clip
-              ctx.save();
-              ctx.beginPath();
-              ctx.font = `bold ${lyricStyle.fontSize}px "${lyricStyle.fontFamily}", sans-serif`;
-              const textWidth = ctx.measureText(line.text).width;
-              
-              const clipWidth = textWidth * progress;
-              const startX = x - (textWidth / 2);
-              
-              ctx.rect(startX, baseY - lyricStyle.fontSize, clipWidth, lyricStyle.fontSize * 2);
-              ctx.clip();
-              
-              drawTextWithEffects(line.text, x, baseY, lyricStyle, lyricStyle.activeColor);
-              ctx.restore();
-
-          } else if (lyricStyle.animationEffect === LyricEffect.BREATHING) {
-              const pulse = (Math.sin(currentTime * 3) + 1) / 2; // 0 to 1
-              const scale = 1 + (pulse * 0.05); // 1.0 to 1.05
-              const styleCopy = {...lyricStyle};
-              styleCopy.glowBlur = lyricStyle.glowBlur + (pulse * 10);
-              drawTextWithEffects(line.text, x, baseY, styleCopy, lyricStyle.activeColor, 1, scale);
-
-          } else if (lyricStyle.animationEffect === LyricEffect.SCATTER) {
-              const scatterStart = 0.8;
-              if (progress < scatterStart) {
-                   drawTextWithEffects(line.text, x, baseY, lyricStyle, lyricStyle.activeColor);
-              } else {
-                   const scatterProgress = (progress - scatterStart) / (1 - scatterStart);
-                   const scale = 1 + scatterProgress * 2;
-                   const opacity = 1 - scatterProgress;
-                   const blur = scatterProgress * 10;
-                   drawTextWithEffects(line.text, x, baseY, lyricStyle, lyricStyle.activeColor, opacity, scale, blur);
-              }
-
-          } else {
-              drawTextWithEffects(line.text, x, baseY, lyricStyle, lyricStyle.activeColor);
-          }
-
-          // Draw next line (preview)
-          if (activeIndex + 1 < lrcLines.length) {
-              const nextLine = lrcLines[activeIndex + 1];
-              const previewStyle = {...lyricStyle, fontSize: lyricStyle.fontSize * 0.7 };
-              drawTextWithEffects(nextLine.text, x, baseY + lyricStyle.fontSize * 1.5, previewStyle, lyricStyle.fontColor);
-          }
-          
-           // Draw prev line
-          if (activeIndex - 1 >= 0) {
-              const prevLine = lrcLines[activeIndex - 1];
-              const prevStyle = {...lyricStyle, fontSize: lyricStyle.fontSize * 0.7 };
-              drawTextWithEffects(prevLine.text, x, baseY - lyricStyle.fontSize * 1.5, prevStyle, lyricStyle.fontColor);
-          }
-
-      } else {
-        // No active line found (intro)
-        if (lrcLines.length > 0 && currentTime < lrcLines[0].time) {
-             const previewStyle = {...lyricStyle, fontSize: lyricStyle.fontSize * 0.8 };
-             drawTextWithEffects(lrcLines[0].text, x, baseY + lyricStyle.fontSize * 1.5, previewStyle, lyricStyle.fontColor);
-             drawTextWithEffects("...", x, baseY, lyricStyle, lyricStyle.fontColor);
-        }
-      }
-    }
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const project = { backgrounds, lrcLines, translationTracks, lyricStyle, titleStyle, titleConfig, transitionEffect, transitionDuration };
+
+    // The hidden videos follow the renderer's schedule; small drift is left alone to avoid stutter
+    getVideoTimes(project, currentTime, renderAssetsRef.current).forEach((time, src) => {
+        const v = videoElementsRef.current.get(src);
+        if (!v) return;
+        if (Math.abs(v.currentTime - time) > 0.3) v.currentTime = time;
+        if (isPlaying && v.paused) v.play().catch(() => {});
+        if (!isPlaying && !v.paused) v.pause();
+    });
 
-  }, [backgrounds, currentTime, lrcLines, lyricStyle, titleStyle, titleConfig, isPlaying, transitionEffect, transitionDuration, drawScaledMedia]);
+    renderFrame(ctx, project, currentTime, renderAssetsRef.current);
+  }, [backgrounds, currentTime, lrcLines, translationTracks, lyricStyle, titleStyle, titleConfig, isPlaying, transitionEffect, transitionDuration]);
 
   // --- Animation Loop ---
   useEffect(() => {
@@ -970,10 +636,23 @@ function App() {
 
       <LyricEditor 
         isOpen={isEditorOpen}
-        onClose={() => setIsEditorOpen(false)}
-        onSave={(lines) => setLrcLines(lines)}
+        onClose={() => { setIsEditorOpen(false); setLyricPasteText(''); }}
+        onSave={(lines, pending, terms) => history.transact('Edit lyrics', () => {
+            setLrcLines(lines);
+            setPendingTranslations(pending);
+            setGlossary(terms);
+        })}
         initialLines={lrcLines}
+        initialPendingTranslations={pendingTranslations}
+        initialGlossary={glossary}
+        initialInputText={lyricPasteText}
+        lrcTags={lrcTags}
+        assOptions={{ lyricStyle, titleStyle, titleConfig, aspectRatio }}
         audioRef={audioRef}
+        audioSrc={audioSrc}
+        audioAnalysis={audioAnalysis}
+        onAnalysisComplete={setAudioAnalysis}
+        history={history}
       />
 
       <TitleEditor 
@@ -981,6 +660,20 @@ function App() {
         onClose={() => setIsTitleEditorOpen(false)}
         config={titleConfig}
         onSave={setTitleConfig}
+        history={history}
+      />
+
+      <ImportReport 
+        report={importReport}
+        onClose={() => setImportReport(null)}
+      />
+
+      <Id3Import 
+        tags={id3Import?.tags ?? null}
+        fileName={id3Import?.fileName}
+        hasLyrics={lrcLines.length > 0}
+        onApply={applyId3Import}
+        onClose={() => setId3Import(null)}
       />
 
       <ProjectManager 
@@ -994,15 +687,19 @@ function App() {
       <ControlPanel 
         onAudioUpload={handleAudioUpload}
         onLrcUpload={handleLrcUpload}
+        onTranslationUpload={handleTranslationUpload}
         onBackgroundUpload={handleBackgroundUpload}
         backgrounds={backgrounds}
         onRemoveBackground={removeBackground}
         onDuplicateBackground={duplicateBackground}
         onMoveBackground={moveBackground}
         onUpdateBackgroundDuration={updateBackgroundDuration}
+        onToggleBackgroundFollowsSong={toggleBackgroundFollowsSong}
         
         lyricStyle={lyricStyle}
         setLyricStyle={setLyricStyle}
+        translationTracks={translationTracks}
+        setTranslationTracks={setTranslationTracks}
         
         titleStyle={titleStyle}
         setTitleStyle={setTitleStyle}
@@ -1036,6 +733,24 @@ function App() {
             </div>
             
             <div className="flex items-center gap-4">
+                <div className="flex items-center bg-gray-800 rounded border border-gray-700">
+                    <button 
+                        onClick={history.undo}
+                        disabled={!historyStatus.undoLabel}
+                        className="p-2 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                        title={historyStatus.undoLabel ? `Undo ${historyStatus.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                    >
+                        <Undo2 size={16} />
+                    </button>
+                    <button 
+                        onClick={history.redo}
+                        disabled={!historyStatus.redoLabel}
+                        className="p-2 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                        title={historyStatus.redoLabel ? `Redo ${historyStatus.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                    >
+                        <Redo2 size={16} />
+                    </button>
+                </div>
                 {isRecording ? (
                     <button onClick={stopRecording} className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 rounded-full text-sm font-bold animate-pulse">
                         <div className="w-2 h-2 bg-white rounded-full"></div> Stop Recording
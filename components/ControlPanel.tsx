@@ -1,21 +1,27 @@
 
 import React, { useRef, useState } from 'react';
-import { Upload, Music, FileText, Image as ImageIcon, Trash2, Settings, Type, Edit3, Copy, Sparkles, MoveHorizontal, MoveVertical, Heading, Layers, ChevronUp, ChevronDown, FolderHeart, Zap } from 'lucide-react';
-import { BackgroundMedia, MediaType, LyricStyle, AspectRatio, LyricEffect, TransitionEffect } from '../types';
+import { Upload, Music, FileText, Image as ImageIcon, Trash2, Settings, Type, Edit3, Copy, Sparkles, MoveHorizontal, MoveVertical, Heading, Layers, ChevronUp, ChevronDown, FolderHeart, Zap, Languages, Eye, EyeOff } from 'lucide-react';
+import { BackgroundMedia, MediaType, LyricStyle, AspectRatio, LyricEffect, TransitionEffect, TranslationTrack } from '../types';
 
 interface ControlPanelProps {
   onAudioUpload: (file: File) => void;
-  onLrcUpload: (text: string) => void;
+  onLrcUpload: (text: string, fileName?: string) => void;
+  onTranslationUpload: (text: string, fileName?: string) => void;
   onBackgroundUpload: (files: FileList) => void;
   backgrounds: BackgroundMedia[];
   onRemoveBackground: (id: string) => void;
   onDuplicateBackground: (id: string) => void;
   onMoveBackground: (id: string, direction: 'up' | 'down') => void;
   onUpdateBackgroundDuration: (id: string, duration: number) => void;
+  onToggleBackgroundFollowsSong: (id: string) => void;
   
   // Lyric Style
   lyricStyle: LyricStyle;
   setLyricStyle: (style: LyricStyle) => void;
+
+  // Translation Tracks (styled secondary lines)
+  translationTracks: TranslationTrack[];
+  setTranslationTracks: (tracks: TranslationTrack[]) => void;
   
   // Title Style
   titleStyle: LyricStyle;
@@ -38,14 +44,18 @@ interface ControlPanelProps {
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   onAudioUpload,
   onLrcUpload,
+  onTranslationUpload,
   onBackgroundUpload,
   backgrounds,
   onRemoveBackground,
   onDuplicateBackground,
   onMoveBackground,
   onUpdateBackgroundDuration,
+  onToggleBackgroundFollowsSong,
   lyricStyle,
   setLyricStyle,
+  translationTracks,
+  setTranslationTracks,
   titleStyle,
   setTitleStyle,
   aspectRatio,
@@ -61,6 +71,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 }) => {
   const audioInputRef = useRef<HTMLInputElement>(null);
   const lrcInputRef = useRef<HTMLInputElement>(null);
+  const translationInputRef = useRef<HTMLInputElement>(null);
   const bgInputRef = useRef<HTMLInputElement>(null);
 
   // Toggle state: 'lyric' or 'title'
@@ -70,12 +81,25 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   const currentStyle = styleMode === 'lyric' ? lyricStyle : titleStyle;
   const setCurrentStyle = styleMode === 'lyric' ? setLyricStyle : setTitleStyle;
 
+  const updateTrack = (name: string, patch: Partial<TranslationTrack>) => {
+    setTranslationTracks(translationTracks.map(t => t.name === name ? { ...t, ...patch } : t));
+  };
+
   const handleLrcFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const text = await file.text();
-      onLrcUpload(text);
+      onLrcUpload(text, file.name);
+    }
+  };
+
+  const handleTranslationFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const text = await file.text();
+      onTranslationUpload(text, file.name);
     }
+    e.target.value = ''; // Allow importing the same file again
   };
 
   return (
@@ -107,19 +131,26 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               className="w-full flex items-center gap-2 p-2 rounded bg-gray-800 hover:bg-gray-700 transition text-sm border border-gray-700"
             >
               <Music size={16} className="text-blue-400" />
-              <span className="truncate">{audioFileName || 'Upload MP3'}</span>
+              <span className="truncate">{audioFileName || 'Upload Audio / Video'}</span>
             </button>
-            <input type="file" ref={audioInputRef} onChange={(e) => e.target.files?.[0] && onAudioUpload(e.target.files[0])} accept="audio/*" className="hidden" />
+            <input type="file" ref={audioInputRef} onChange={(e) => e.target.files?.[0] && onAudioUpload(e.target.files[0])} accept="audio/*,video/*" className="hidden" />
 
             {/* Lyric & Title Actions */}
             <div className="flex gap-2">
                 <button 
                   onClick={() => lrcInputRef.current?.click()}
                   className="flex-1 flex items-center justify-center gap-2 p-2 rounded bg-gray-800 hover:bg-gray-700 transition text-sm border border-gray-700"
-                  title="Import LRC File"
+                  title="Import Lyrics (LRC / SRT / VTT)"
                 >
                   <FileText size={16} className="text-green-400" />
-                  <span>Import LRC</span>
+                  <span>Import Lyrics</span>
+                </button>
+                <button 
+                  onClick={() => translationInputRef.current?.click()}
+                  className="w-10 flex items-center justify-center p-2 rounded bg-gray-800 hover:bg-gray-700 transition text-sm border border-gray-700"
+                  title="Merge Translation LRC (aligned by time)"
+                >
+                  <Languages size={16} className="text-cyan-400" />
                 </button>
                 <button 
                   onClick={onOpenLyricEditor}
@@ -129,7 +160,8 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                   <Edit3 size={16} className="text-yellow-400" />
                 </button>
             </div>
-            <input type="file" ref={lrcInputRef} onChange={handleLrcFile} accept=".lrc,.txt" className="hidden" />
+            <input type="file" ref={lrcInputRef} onChange={handleLrcFile} accept=".lrc,.txt,.srt,.vtt" className="hidden" />
+            <input type="file" ref={translationInputRef} onChange={handleTranslationFile} accept=".lrc,.txt,.srt,.vtt" className="hidden" />
 
             <button 
               onClick={onOpenTitleEditor}
@@ -213,6 +245,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                             {bg.type === MediaType.VIDEO && bg.duration === 0 && (
                                 <span className="text-[9px] px-1 bg-gray-700 rounded text-gray-400">Auto</span>
                             )}
+                            {bg.type === MediaType.VIDEO && (
+                                <button 
+                                    onClick={() => onToggleBackgroundFollowsSong(bg.id)}
+                                    className={`ml-auto p-0.5 rounded ${bg.followsSong ? 'text-blue-400 bg-blue-900/40' : 'text-gray-600 hover:text-gray-400'}`}
+                                    title={bg.followsSong ? 'Synced to the song timeline, under the playlist' : 'Plays from the start of its slot; click to sync to the song timeline'}
+                                >
+                                    <Music size={12} />
+                                </button>
+                            )}
                         </div>
                     </div>
                   </div>
@@ -391,6 +432,44 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 )}
               </div>
 
+              {/* Translation Tracks */}
+              {styleMode === 'lyric' && translationTracks.length > 0 && (
+                <div className="p-3 bg-gray-800 rounded border border-gray-700 space-y-3">
+                   <h3 className="text-xs font-semibold text-gray-400 uppercase flex items-center gap-1">
+                       <Languages size={12} /> Translation Tracks
+                   </h3>
+                   {translationTracks.map(track => (
+                       <div key={track.name} className="space-y-1">
+                           <div className="flex items-center justify-between gap-2">
+                               <span className="text-[10px] text-gray-300 truncate" title={track.name}>{track.name}</span>
+                               <button 
+                                   onClick={() => updateTrack(track.name, { visible: !track.visible })}
+                                   className="text-gray-500 hover:text-blue-400"
+                                   title={track.visible ? 'Hide track' : 'Show track'}
+                               >
+                                   {track.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+                               </button>
+                           </div>
+                           <div className="flex items-center gap-2">
+                               <input 
+                                   type="color" 
+                                   value={track.color.slice(0, 7)} 
+                                   onChange={(e) => updateTrack(track.name, { color: e.target.value })}
+                                   className="w-8 h-6 bg-transparent cursor-pointer rounded"
+                               />
+                               <input 
+                                   type="range" min="12" max="120" 
+                                   value={track.fontSize} 
+                                   onChange={(e) => updateTrack(track.name, { fontSize: Number(e.target.value) })}
+                                   className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                               />
+                               <span className="text-[10px] text-gray-500 w-8 text-right">{track.fontSize}px</span>
+                           </div>
+                       </div>
+                   ))}
+                </div>
+              )}
+
                {/* Shadow & Glow */}
               <div className="p-3 bg-gray-800 rounded border border-gray-700 space-y-3">
                  <h3 className="text-xs font-semibold text-gray-400 uppercase">Effects</h3>
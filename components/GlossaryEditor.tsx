@@ -0,0 +1,61 @@
+import React from 'react';
+import { GlossaryEntry } from '../types';
+import { RecordOptions } from '../utils/history';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface GlossaryEditorProps {
+  glossary: GlossaryEntry[];
+  onChange: (glossary: GlossaryEntry[], options?: RecordOptions) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "min-w-0 flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 outline-none focus:border-blue-500 disabled:opacity-50";
+
+export const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ glossary, onChange, disabled }) => {
+  // Typing into one field is a single undo step; adding and removing rows are steps of their own
+  const updateEntry = (index: number, patch: Partial<GlossaryEntry>) => {
+    onChange(glossary.map((entry, i) => i === index ? { ...entry, ...patch } : entry), { label: 'Edit glossary', mergeKey: `glossary-${index}` });
+  };
+
+  return (
+    <div className="space-y-1.5 p-2 bg-gray-900/60 rounded border border-gray-700/50">
+      {glossary.map((entry, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <input
+            type="text"
+            value={entry.term}
+            onChange={(e) => updateEntry(i, { term: e.target.value })}
+            placeholder="Term"
+            className={inputClass}
+            disabled={disabled}
+          />
+          <input
+            type="text"
+            value={entry.rendering}
+            onChange={(e) => updateEntry(i, { rendering: e.target.value })}
+            placeholder="Keep as is"
+            className={inputClass}
+            disabled={disabled}
+            title="Fixed translation; leave empty to keep the term untranslated"
+          />
+          <button
+            onClick={() => onChange(glossary.filter((_, j) => j !== i), { label: 'Remove glossary term', mergeKey: null })}
+            className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-50"
+            disabled={disabled}
+            title="Remove term"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...glossary, { term: '', rendering: '' }], { label: 'Add glossary term', mergeKey: null })}
+        className="w-full flex items-center justify-center gap-1 py-1 border border-dashed border-gray-700 rounded text-[10px] text-gray-500 hover:text-gray-300 disabled:opacity-50"
+        disabled={disabled}
+      >
+        <Plus size={10} /> Add Term
+      </button>
+      <p className="text-[9px] text-gray-500 leading-tight">Names and terms sent with every translation request. Saved with the project.</p>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Id3Tags } from '../utils/id3';
+import { formatTime } from '../utils';
+import { X, Music, FileText, Type, Image as ImageIcon } from 'lucide-react';
+
+export type Id3LyricsChoice = 'synced' | 'plain' | 'none';
+
+export interface Id3ImportChoice {
+  lyrics: Id3LyricsChoice; // SYLT replaces the lyrics, USLT goes into the Lyric Studio paste box
+  titles: boolean; // TIT2/TPE1/TALB/TCOM into the title sequence
+  cover: boolean; // APIC as a background image
+}
+
+interface Id3ImportProps {
+  tags: Id3Tags | null;
+  fileName?: string;
+  hasLyrics: boolean; // Current lyrics would be replaced
+  onApply: (choice: Id3ImportChoice) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LINES = 4;
+
+export const Id3Import: React.FC<Id3ImportProps> = ({ tags, fileName, hasLyrics, onApply, onClose }) => {
+  const [choice, setChoice] = useState<Id3ImportChoice>({ lyrics: 'none', titles: false, cover: false });
+
+  const titleFields = tags ? [
+    { label: 'Title', value: tags.title },
+    { label: 'Artist', value: tags.artist },
+    { label: 'Album', value: tags.album },
+    { label: 'Composer', value: tags.composer },
+  ].filter(f => f.value) : [];
+
+  // Synced lyrics are the more useful of the two; neither is preselected over existing lyrics
+  useEffect(() => {
+    if (!tags) return;
+    setChoice({
+      lyrics: hasLyrics ? 'none' : tags.syncedLyrics?.length ? 'synced' : tags.lyrics ? 'plain' : 'none',
+      titles: !!(tags.title || tags.artist || tags.album || tags.composer),
+      cover: !!tags.cover,
+    });
+  }, [tags]); // Not on hasLyrics: applying synced lyrics changes it while the dialog closes
+
+  const coverUrl = useMemo(() => tags?.cover ? URL.createObjectURL(new Blob([tags.cover.data as BlobPart], { type: tags.cover.mimeType })) : null, [tags]);
+  useEffect(() => () => { if (coverUrl) URL.revokeObjectURL(coverUrl); }, [coverUrl]);
+
+  if (!tags) return null;
+
+  const lyricOption = (value: Id3LyricsChoice, label: string, detail: React.ReactNode) => (
+    <label className={`block p-2 rounded border cursor-pointer ${choice.lyrics === value ? 'border-blue-500/60 bg-blue-900/10' : 'border-gray-700 hover:border-gray-600'}`}>
+      <div className="flex items-center gap-2 text-sm text-gray-200">
+        <input type="radio" checked={choice.lyrics === value} onChange={() => setChoice({ ...choice, lyrics: value })} />
+        {label}
+      </div>
+      {detail}
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-gray-900 w-full max-w-lg rounded-xl border border-gray-700 shadow-2xl flex flex-col overflow-hidden max-h-[85vh]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800 bg-gray-800/50">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2 min-w-0">
+            <Music size={18} className="text-green-400 flex-shrink-0"/>
+            <span className="truncate">Found in {fileName || 'the audio file'}</span>
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {!!(tags.syncedLyrics?.length || tags.lyrics) && (
+            <div className="space-y-2">
+              <h3 className="text-xs text-gray-400 font-semibold uppercase tracking-wider flex items-center gap-1">
+                <FileText size={12} /> Lyrics {hasLyrics && <span className="normal-case font-normal text-yellow-400/80">(replaces the current lyrics)</span>}
+              </h3>
+              {!!tags.syncedLyrics?.length && lyricOption('synced', `Synced lyrics (${tags.syncedLyrics.length} lines)`, (
+                <div className="mt-1 pl-6 text-xs text-gray-500 font-mono space-y-0.5">
+                  {tags.syncedLyrics.slice(0, PREVIEW_LINES).map((line, i) => (
+                    <div key={i} className="truncate">[{formatTime(line.time)}] {line.text}</div>
+                  ))}
+                </div>
+              ))}
+              {tags.lyrics && lyricOption('plain', 'Plain lyrics, into the Lyric Studio to sync', (
+                <div className="mt-1 pl-6 text-xs text-gray-500 whitespace-pre-line line-clamp-4">{tags.lyrics}</div>
+              ))}
+              {lyricOption('none', 'Keep the current lyrics', null)}
+            </div>
+          )}
+
+          {titleFields.length > 0 && (
+            <label className="flex items-start gap-2 p-2 rounded border border-gray-700 cursor-pointer hover:border-gray-600">
+              <input type="checkbox" checked={choice.titles} onChange={(e) => setChoice({ ...choice, titles: e.target.checked })} className="mt-1" />
+              <div className="min-w-0">
+                <div className="text-sm text-gray-200 flex items-center gap-1"><Type size={14} /> Fill in the title sequence</div>
+                {titleFields.map(f => (
+                  <div key={f.label} className="text-xs text-gray-500 truncate">{f.label}: <span className="text-gray-300">{f.value}</span></div>
+                ))}
+              </div>
+            </label>
+          )}
+
+          {coverUrl && (
+            <label className="flex items-center gap-3 p-2 rounded border border-gray-700 cursor-pointer hover:border-gray-600">
+              <input type="checkbox" checked={choice.cover} onChange={(e) => setChoice({ ...choice, cover: e.target.checked })} />
+              <img src={coverUrl} alt="Cover art" className="w-16 h-16 object-cover rounded border border-gray-700" />
+              <div className="text-sm text-gray-200 flex items-center gap-1"><ImageIcon size={14} /> Add the cover art as a background</div>
+            </label>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-800 bg-gray-800/50 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-400 hover:text-white">
+            Skip
+          </button>
+          <button
+            onClick={() => onApply(choice)}
+            disabled={choice.lyrics === 'none' && !choice.titles && !choice.cover}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-400 rounded text-sm font-medium transition"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
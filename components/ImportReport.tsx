@@ -0,0 +1,91 @@
+import React from 'react';
+import { LrcDiagnostic } from '../types';
+import { X, FileText, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+export interface ImportReportData {
+  fileName?: string;
+  lineCount: number;
+  diagnostics: LrcDiagnostic[];
+}
+
+interface ImportReportProps {
+  report: ImportReportData | null;
+  onClose: () => void;
+}
+
+const DIAGNOSTIC_LABELS: Record<LrcDiagnostic['type'], string> = {
+  skipped: 'Skipped',
+  out_of_order: 'Out of order',
+  duplicate_time: 'Duplicate time',
+  past_duration: 'Past audio end',
+  ambiguous_time: 'Ambiguous time',
+};
+
+export const ImportReport: React.FC<ImportReportProps> = ({ report, onClose }) => {
+  if (!report) return null;
+
+  const counts = report.diagnostics.reduce<Partial<Record<LrcDiagnostic['type'], number>>>((acc, d) => {
+    acc[d.type] = (acc[d.type] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-gray-900 w-full max-w-lg rounded-xl border border-gray-700 shadow-2xl flex flex-col overflow-hidden max-h-[80vh]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800 bg-gray-800/50">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <FileText size={18} className="text-green-400"/> Import Report
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-3 p-3 bg-gray-800 rounded-lg border border-gray-700">
+            {report.diagnostics.length === 0
+              ? <CheckCircle2 size={20} className="text-green-400 flex-shrink-0" />
+              : <AlertTriangle size={20} className="text-yellow-400 flex-shrink-0" />}
+            <div className="min-w-0">
+              <p className="text-sm text-gray-200 truncate">{report.fileName || 'Lyrics'}</p>
+              <p className="text-xs text-gray-500">
+                {report.lineCount} line(s) imported{report.diagnostics.length > 0 ? `, ${report.diagnostics.length} issue(s) found` : ', no issues found'}
+              </p>
+            </div>
+          </div>
+
+          {report.diagnostics.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(counts) as LrcDiagnostic['type'][]).map(type => (
+                  <span key={type} className="text-[10px] px-2 py-0.5 bg-gray-800 border border-gray-700 rounded text-gray-300">
+                    {DIAGNOSTIC_LABELS[type]}: {counts[type]}
+                  </span>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                {report.diagnostics.map((d, i) => (
+                  <div key={i} className="flex items-start gap-3 p-2 bg-gray-950/50 rounded border border-gray-800 text-xs">
+                    <span className="font-mono text-gray-500 w-14 flex-shrink-0">L{d.lineNumber}</span>
+                    <span className="text-yellow-300/80 w-24 flex-shrink-0">{DIAGNOSTIC_LABELS[d.type]}</span>
+                    <span className="text-gray-300 break-words min-w-0">{d.message}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-800 bg-gray-800/50 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium shadow-lg shadow-blue-900/20"
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
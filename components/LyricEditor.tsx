@@ -1,18 +1,87 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { LrcLine } from '../types';
-import { formatTime, generateLrc } from '../utils';
-import { GoogleGenAI } from "@google/genai";
-import { X, Play, Pause, Save, Download, RotateCcw, Plus, Trash2, Languages, Clock, AlertTriangle, Sparkles, Loader2, Globe, ArrowRight } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { LrcLine, LrcTags, PendingTranslation, GlossaryEntry, AudioAnalysis } from '../types';
+import { formatTime, generateLrc, retimeLine, shiftLines, stretchLines, crossesNeighbours, getTranslationTrackNames, splitIntoWords, parseRuby, stripRuby, hasRuby } from '../utils';
+import { generateSrt, generateVtt, LyricFileFormat } from '../utils/subtitles';
+import { generateAss, AssExportOptions } from '../utils/ass';
+import { lintLyrics, splitLyricLine, extendLyricLine, LyricLintIssue } from '../utils/lyricLint';
+import { findInLyrics, replaceMatches, FindMatch, FindOptions, FindScope } from '../utils/findReplace';
+import { EditHistory, useHistoryState, useHistoryStatus } from '../utils/history';
+import { decodeAudio, loadWaveform, WaveformData } from '../utils/waveform';
+import { analyzeAudio, getBeatTimes, snapTime, SnapTarget } from '../utils/audioAnalysis';
+import { WaveformTimeline } from './WaveformTimeline';
+import { TranslationSettingsPanel } from './TranslationSettings';
+import { GlossaryEditor } from './GlossaryEditor';
+import { TranslationReview } from './TranslationReview';
+import { TranslationMemoryManager } from './TranslationMemoryManager';
+import { lookupTranslationMemory, saveToTranslationMemory, getGlossaryHash } from '../utils/db';
+import { translateLines, loadTranslationSettings, saveTranslationSettings, TranslationSettings, TranslationProgress, TranslationResult, TRANSLATION_PROVIDERS } from '../utils/translation';
+import { X, Play, Pause, Save, Download, RotateCcw, Plus, Trash2, Languages, Clock, AlertTriangle, Sparkles, Loader2, Globe, ArrowRight, ChevronDown, ChevronRight, Scissors, Crosshair, Undo2, Redo2, Magnet, Activity, StepBack, Gauge, ListRestart, Search, CaseSensitive, Regex, WholeWord, Replace, ReplaceAll, Settings, Columns2, BookA, Database } from 'lucide-react';
 
 interface LyricEditorProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (lines: LrcLine[]) => void;
+  onSave: (lines: LrcLine[], pendingTranslations: PendingTranslation[], glossary: GlossaryEntry[]) => void;
   initialLines: LrcLine[];
+  initialPendingTranslations: PendingTranslation[];
+  initialGlossary: GlossaryEntry[];
+  initialInputText?: string; // Opens on the paste box with this text, e.g. from the audio file's tags
+  lrcTags?: LrcTags;
+  assOptions: AssExportOptions; // Current styling, carried into .ass exports
   audioRef: React.RefObject<HTMLAudioElement | null>;
+  audioSrc: string | null; // Decoded for the waveform timeline
+  audioAnalysis: AudioAnalysis | null; // Cached in the project once computed
+  onAnalysisComplete: (analysis: AudioAnalysis) => void;
+  history: EditHistory; // Steps made here stay undoable until the editor closes
 }
 
+// Seconds of audio replayed before a word when stepping back to re-tap it
+const WORD_STEP_BACK_PREROLL = 2;
+
+// Units tapped in word sync: existing word timings keep their split, otherwise words / CJK characters
+const getLineWords = (line: LrcLine): string[] => {
+  return line.words ? line.words.map(w => w.text) : splitIntoWords(line.text);
+};
+
+// Sung part of a line (when it has an end time) against the time until the next line starts
+const DurationBar: React.FC<{ lines: LrcLine[]; index: number }> = ({ lines, index }) => {
+  const line = lines[index];
+  if (line.endTime === undefined || line.endTime <= line.time) return null;
+  const duration = line.endTime - line.time;
+  const next = lines.slice(index + 1).find(l => l.time > line.time);
+  const slot = next ? Math.max(duration, next.time - line.time) : duration;
+  return (
+    <div className="w-20 mt-1" title={`Sung ${duration.toFixed(2)}s${next ? `, gap ${(slot - duration).toFixed(2)}s` : ''}`}>
+      <div className="h-1 bg-gray-800 rounded-full overflow-hidden">
+        <div className="h-full bg-emerald-500/70" style={{ width: `${(duration / slot) * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+// base{reading} markup as HTML ruby
+const RubyText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {parseRuby(text).map((segment, i) => segment.ruby !== undefined
+      ? <ruby key={i}>{segment.text}<rt className="text-[0.55em] font-normal text-gray-400">{segment.ruby}</rt></ruby>
+      : <React.Fragment key={i}>{segment.text}</React.Fragment>)}
+  </>
+);
+
+// Inline diff of one text field: each match struck out, followed by its replacement
+const MatchPreview: React.FC<{ text: string; matches: FindMatch[] }> = ({ text, matches }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  matches.forEach((match, i) => {
+    parts.push(text.slice(last, match.start));
+    parts.push(<del key={`d${i}`} className="bg-red-900/40 text-red-300">{text.slice(match.start, match.end)}</del>);
+    if (match.replacement) parts.push(<ins key={`i${i}`} className="bg-green-900/40 text-green-300 no-underline">{match.replacement}</ins>);
+    last = match.end;
+  });
+  parts.push(text.slice(last));
+  return <span className="whitespace-pre-wrap">{parts}</span>;
+};
+
 const LANGUAGES = [
     { label: 'Auto Detect (Source Only)', value: 'Auto Detect' },
     { label: 'Chinese (Simplified)', value: 'Simplified Chinese' },
@@ -33,37 +102,169 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
   onClose, 
   onSave, 
   initialLines, 
-  audioRef 
+  initialPendingTranslations,
+  initialGlossary,
+  initialInputText,
+  lrcTags,
+  assOptions,
+  audioRef,
+  audioSrc,
+  audioAnalysis,
+  onAnalysisComplete,
+  history
 }) => {
-  const [lines, setLines] = useState<LrcLine[]>([]);
+  const [lines, setLines, resetLines] = useHistoryState<LrcLine[]>(history, 'Lyric edit', []);
+  const [pendingTranslations, setPendingTranslations, resetPendingTranslations] = useHistoryState<PendingTranslation[]>(history, 'Translation review', []);
+  const [glossary, setGlossary, resetGlossary] = useHistoryState<GlossaryEntry[]>(history, 'Glossary', []);
+  const historyStatus = useHistoryStatus(history);
+  const [pendingTargets, setPendingTargets] = useState<Record<string, number>>({}); // Pending id -> chosen line index
   const [inputText, setInputText] = useState('');
-  const [mode, setMode] = useState<'edit' | 'sync'>('edit'); // 'edit' = text/time tweaking, 'sync' = recording
+  const [mode, setMode] = useState<'edit' | 'sync' | 'hold-sync' | 'word-sync'>('edit'); // 'edit' = text/time tweaking, 'sync' = recording lines, 'hold-sync' = recording lines with end times, 'word-sync' = recording words
   const [activeIndex, setActiveIndex] = useState(0);
+  const [wordIndex, setWordIndex] = useState(0); // Next word to tap in word sync
+  const [holdStart, setHoldStart] = useState<{ index: number; time: number } | null>(null); // Key held down in hold sync
   const [globalOffset, setGlobalOffset] = useState(-0.2); // Default reaction time compensation
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
+  const [exportPrecision, setExportPrecision] = useState<2 | 3>(2); // Fractional digits in exported timestamps
+  const [exportFormat, setExportFormat] = useState<LyricFileFormat | 'ass'>('lrc');
+  const [exportStripRuby, setExportStripRuby] = useState(false);
+  const [showLint, setShowLint] = useState(true);
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [snapEnabled, setSnapEnabled] = useState(false);
+  const [snapTarget, setSnapTarget] = useState<SnapTarget>('onset');
+  const [snapTolerance, setSnapTolerance] = useState(80); // ms
+  const [syncRange, setSyncRange] = useState<{ start: number; end: number } | null>(null); // Lines being re-recorded; null = all
+  const [rangeInput, setRangeInput] = useState({ from: 1, to: 1 }); // 1-based line numbers, as shown
+  const [preRoll, setPreRoll] = useState(3); // Seconds replayed before the first line of a re-sync
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [selection, setSelection] = useState<number[]>([]); // Selected line indexes (edit mode), ascending
+  const [shiftAmount, setShiftAmount] = useState(0); // Seconds
+  const [stretchTargets, setStretchTargets] = useState({ first: 0, last: 0 }); // Where the first/last selected lines should land
+  const selectionAnchorRef = useRef<number | null>(null); // Last clicked row, for Shift+click ranges
+  const [showFind, setShowFind] = useState(false);
+  const [findOptions, setFindOptions] = useState<FindOptions>({ query: '', caseSensitive: false, regex: false, wholeWord: false, scope: 'all' });
+  const [replaceText, setReplaceText] = useState('');
+  const findInputRef = useRef<HTMLInputElement>(null);
   
   // AI Translation State
   const [sourceLang, setSourceLang] = useState('Auto Detect');
   const [targetLang, setTargetLang] = useState('Simplified Chinese');
   const [isTranslating, setIsTranslating] = useState(false);
+  const [translationSettings, setTranslationSettings] = useState<TranslationSettings>(loadTranslationSettings);
+  const [showTranslationSettings, setShowTranslationSettings] = useState(false);
+  const [translationProgress, setTranslationProgress] = useState<TranslationProgress | null>(null);
+  const [failedTranslations, setFailedTranslations] = useState<number[]>([]); // Line indexes the last run could not translate
+  const translationAbortRef = useRef<AbortController | null>(null);
+  const lineLayoutRef = useRef(0); // Bumped when lines are added or removed; translation results are by index
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [reuseTranslations, setReuseTranslations] = useState(true); // Reuse cached translations of unchanged lines
+  const [showTranslationMemory, setShowTranslationMemory] = useState(false);
+  const [showReview, setShowReview] = useState(false); // Side-by-side translation review instead of the line list
+  const [reviewTrack, setReviewTrack] = useState('');
+  const [reviewDrafts, setReviewDrafts] = useState<Record<number, string>>({}); // Regenerated translations awaiting accept, by line index
   
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
+  const trackNames = getTranslationTrackNames(lines);
+
+  // Readability warnings against the current lyric style and output resolution
+  const lintIssues = useMemo(() => isOpen ? lintLyrics(lines, assOptions) : [], [isOpen, lines, assOptions.lyricStyle, assOptions.aspectRatio]);
+  const lintByLine = useMemo(() => {
+      const map = new Map<number, LyricLintIssue[]>();
+      lintIssues.forEach(issue => map.set(issue.lineIndex, [...(map.get(issue.lineIndex) || []), issue]));
+      return map;
+  }, [lintIssues]);
+
   // Sync state with props when opening
   useEffect(() => {
     if (isOpen) {
-      if (initialLines.length > 0) {
-        setLines(initialLines);
+      if (initialInputText) {
+        // Start over from the paste box; the project keeps its lines unless this is saved
+        resetLines([]);
+        setInputText(initialInputText);
+      } else if (initialLines.length > 0) {
+        resetLines(initialLines);
         // Also populate raw text just in case user wants to clear and restart
         setInputText(initialLines.map(l => l.text).join('\n'));
       } else {
-        setLines([]);
+        resetLines([]);
         setInputText('');
       }
+      resetPendingTranslations(initialPendingTranslations);
+      resetGlossary(initialGlossary);
+      setPendingTargets({});
       setMode('edit');
+      setSyncRange(null);
+      setRangeInput({ from: 1, to: Math.max(1, initialLines.length) });
     }
-  }, [isOpen, initialLines]);
+  }, [isOpen, initialLines, initialPendingTranslations, initialGlossary, initialInputText]);
+
+  // Slowed playback for syncing fast passages; the player is back at normal speed once the editor closes
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!isOpen || !audio) return;
+    audio.playbackRate = playbackRate;
+    return () => { audio.playbackRate = 1; };
+  }, [isOpen, playbackRate, audioRef]);
+
+  // Undo inside the editor walks back its own steps; they are dropped when it closes
+  useEffect(() => {
+    if (isOpen) history.openScope('lyric-editor');
+    else history.closeScope();
+  }, [isOpen, history]);
+
+  // Peaks are cached per source, so reopening the editor does not decode again
+  useEffect(() => {
+    if (!isOpen || !audioSrc) return;
+    let cancelled = false;
+    setIsDecoding(true);
+    loadWaveform(audioSrc)
+      .then(data => { if (!cancelled) setWaveform(data); })
+      .catch(e => {
+          console.error("Waveform decoding failed", e);
+          if (!cancelled) setWaveform(null);
+      })
+      .finally(() => { if (!cancelled) setIsDecoding(false); });
+    return () => { cancelled = true; };
+  }, [isOpen, audioSrc]);
+
+  const snapTimes = useMemo(() => {
+      if (!audioAnalysis) return [];
+      return snapTarget === 'beat' ? getBeatTimes(audioAnalysis) : audioAnalysis.onsets;
+  }, [audioAnalysis, snapTarget]);
+
+  // Pull a tapped or dragged time onto the nearest onset/beat when snapping is on
+  const snap = (time: number) => {
+      return snapEnabled && snapTimes.length > 0 ? snapTime(time, snapTimes, snapTolerance / 1000) : time;
+  };
+
+  const handleAnalyze = async () => {
+      if (!audioSrc) return;
+      setIsAnalyzing(true);
+      try {
+          const buffer = await decodeAudio(audioSrc);
+          onAnalysisComplete(await analyzeAudio(buffer));
+          setSnapEnabled(true);
+      } catch (e) {
+          console.error("Audio analysis failed", e);
+          alert("Could not analyze this audio file.");
+      } finally {
+          setIsAnalyzing(false);
+      }
+  };
+
+  const snapAllLines = () => {
+      if (snapTimes.length === 0) return;
+      const tolerance = snapTolerance / 1000;
+      setLines(lines.map((line, i) => {
+          if (i > 0 && line.time === 0) return line; // Not timed yet
+          const time = snapTime(line.time, snapTimes, tolerance);
+          return time === line.time ? line : retimeLine(line, time);
+      }), { label: 'Snap all lines', mergeKey: null });
+  };
 
   // Audio Sync Loop
   useEffect(() => {
@@ -80,8 +281,8 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
 
   // Auto scroll to active line in sync mode
   useEffect(() => {
-    if (mode === 'sync' && scrollContainerRef.current) {
-        const el = scrollContainerRef.current.children[activeIndex] as HTMLElement;
+    if (mode !== 'edit' && scrollContainerRef.current) {
+        const el = scrollContainerRef.current.querySelector(`[data-line-index="${activeIndex}"]`);
         if (el) {
             el.scrollIntoView({ behavior: 'smooth', block: 'center' });
         }
@@ -94,37 +295,169 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
       time: 0,
       text: text.trim()
     })).filter(l => l.text !== '' || true); // Keep empty lines as they might be instrumental breaks
-    setLines(newLines);
+    setLines(newLines, { label: 'Start editing' });
     setMode('sync');
     setActiveIndex(0);
+    setSyncRange(null);
+    setRangeInput({ from: 1, to: Math.max(1, newLines.length) });
+  };
+
+  // Leaving sync mode ends a range re-sync
+  useEffect(() => {
+    if (mode === 'edit') setSyncRange(null);
+    setHoldStart(null);
+  }, [mode]);
+
+  // Last line a tap may change: the end of the re-sync range, or the last line
+  const syncEnd = syncRange ? Math.min(syncRange.end, lines.length - 1) : lines.length - 1;
+  // Taps only ever touch lines inside the re-sync range, also after the active line was moved out of it
+  const isActiveInSyncRange = activeIndex >= (syncRange?.start ?? 0) && activeIndex <= syncEnd && activeIndex < lines.length;
+
+  // Re-record only lines start..end (0-based), starting a little before the first one
+  const startSyncRange = (start: number, end: number) => {
+    if (lines.length === 0) return;
+    const from = Math.max(0, Math.min(start, lines.length - 1));
+    const to = Math.max(from, Math.min(end, lines.length - 1));
+    setSyncRange({ start: from, end: to });
+    setRangeInput({ from: from + 1, to: to + 1 });
+    setActiveIndex(from);
+    setWordIndex(0);
+    if (mode === 'edit') setMode('sync');
+    seekTo(Math.max(0, lines[from].time - preRoll));
+    audioRef.current?.play();
+  };
+
+  // The last line of the range has been tapped: stop before anything outside it is touched
+  const finishSyncRange = () => {
+    audioRef.current?.pause();
+    setActiveIndex(syncEnd);
+    setSyncRange(null);
+    setMode('edit');
+  };
+
+  // Song time of a tap. Reads the player directly, since the polled time lags by up to 100ms.
+  // The reaction offset is wall-clock time, so at half speed it covers half as much of the song.
+  const getTapTime = () => {
+    const mediaTime = audioRef.current?.currentTime ?? currentTime;
+    return snap(Math.max(0, mediaTime + globalOffset * playbackRate));
+  };
+
+  const advanceLine = () => {
+    if (syncRange && activeIndex === syncEnd) finishSyncRange();
+    else setActiveIndex(prev => Math.min(prev + 1, lines.length - 1));
   };
 
   const handleTap = () => {
-    if (activeIndex >= lines.length) return;
+    if (!isActiveInSyncRange) return;
     
     const newLines = [...lines];
-    // Apply time with offset (ensure not negative)
-    newLines[activeIndex].time = Math.max(0, currentTime + globalOffset);
-    setLines(newLines);
-    setActiveIndex(prev => Math.min(prev + 1, lines.length - 1));
+    newLines[activeIndex] = retimeLine(newLines[activeIndex], getTapTime());
+    setLines(newLines, { label: 'Tap', mergeKey: null });
+    advanceLine();
+  };
+
+  // Hold sync: pressing marks where the active line starts, releasing marks where it ends
+  const handleHoldStart = () => {
+    if (holdStart || !isActiveInSyncRange) return;
+    setHoldStart({ index: activeIndex, time: getTapTime() });
+  };
+
+  // Both edges are written on release, as one step
+  const handleHoldEnd = () => {
+    if (!holdStart) return;
+    setHoldStart(null);
+    const line = lines[holdStart.index];
+    if (!line) return;
+    const end = getTapTime();
+    const newLines = [...lines];
+    newLines[holdStart.index] = { ...retimeLine(line, holdStart.time), endTime: end > holdStart.time ? end : undefined };
+    setLines(newLines, { label: 'Hold', mergeKey: null });
+    advanceLine();
+  };
+
+  // Word sync: each tap marks the next word, then moves on to the next line
+  const handleWordTap = () => {
+    const line = lines[activeIndex];
+    if (!line || !isActiveInSyncRange) return;
+    const tokens = getLineWords(line);
+    if (tokens.length > 0 && wordIndex >= tokens.length) return; // Past the last word of the last line
+
+    const time = getTapTime();
+    const newLines = [...lines];
+    if (tokens.length === 0) {
+        // Empty line: a single tap marks the gap
+        newLines[activeIndex] = { ...line, time };
+    } else {
+        const words = tokens.map((text, i) => {
+            const existing = line.words?.[i];
+            if (i === wordIndex) return { time, text };
+            // Words not tapped yet start with this one until they are reached
+            if (!existing || (i > wordIndex && existing.time < time)) return { time, text };
+            return existing;
+        });
+        newLines[activeIndex] = { ...line, time: wordIndex === 0 ? time : line.time, words };
+    }
+    setLines(newLines, { label: 'Tap word', mergeKey: null });
+
+    if (wordIndex + 1 < tokens.length) {
+        setWordIndex(wordIndex + 1);
+    } else if (activeIndex + 1 <= syncEnd) {
+        setActiveIndex(activeIndex + 1);
+        setWordIndex(0);
+    } else if (syncRange) {
+        finishSyncRange();
+    } else {
+        setWordIndex(tokens.length);
+    }
+  };
+
+  // Go back one word and replay a little before it, so it can be tapped again
+  const stepBackWord = () => {
+    if (!lines[activeIndex]) return;
+    let lineIndex = activeIndex;
+    let index = Math.min(wordIndex, getLineWords(lines[lineIndex]).length) - 1;
+    if (index < 0) {
+        if (lineIndex === 0 || (syncRange && lineIndex <= syncRange.start)) return;
+        lineIndex -= 1;
+        index = Math.max(0, getLineWords(lines[lineIndex]).length - 1);
+    }
+    setActiveIndex(lineIndex);
+    setWordIndex(index);
+    const target = lines[lineIndex].words?.[index]?.time ?? lines[lineIndex].time;
+    seekTo(Math.max(0, target - WORD_STEP_BACK_PREROLL));
   };
 
   // Keyboard listener for Spacebar in Sync Mode
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!isOpen || mode !== 'sync') return;
+      if (!isOpen || mode === 'edit') return;
       if (e.code === 'Space') {
         e.preventDefault(); // Prevent scrolling
+        if (e.repeat && mode === 'hold-sync') return;
         if (!isPlaying) {
              audioRef.current?.play();
+        } else if (mode === 'hold-sync') {
+             handleHoldStart();
+        } else if (mode === 'word-sync') {
+             handleWordTap();
         } else {
              handleTap();
         }
+      } else if (e.code === 'Backspace' && mode === 'word-sync' && !(e.target instanceof HTMLInputElement)) {
+        e.preventDefault();
+        stepBackWord();
       }
     };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (isOpen && mode === 'hold-sync' && e.code === 'Space') handleHoldEnd();
+    };
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, mode, isPlaying, activeIndex, lines, currentTime, globalOffset]);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [isOpen, mode, isPlaying, activeIndex, wordIndex, holdStart, lines, currentTime, globalOffset, snapEnabled, snapTimes, snapTolerance, syncRange, playbackRate, preRoll]);
 
   const togglePlay = () => {
     if (audioRef.current) {
@@ -141,14 +474,71 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
 
   const updateLineTime = (index: number, newTime: number) => {
       const newLines = [...lines];
-      newLines[index].time = Math.max(0, newTime);
-      setLines(newLines);
+      newLines[index] = retimeLine(newLines[index], Math.max(0, newTime));
+      setLines(newLines, { label: 'Edit time', mergeKey: `time-${index}` });
+  };
+
+  // Empty value clears the end time (line then lasts until the next one)
+  const updateLineEnd = (index: number, value: string) => {
+      const newLines = [...lines];
+      const endTime = parseFloat(value);
+      newLines[index] = { ...newLines[index], endTime: isNaN(endTime) ? undefined : Math.max(0, endTime) };
+      setLines(newLines, { label: 'Edit end time', mergeKey: `end-${index}` });
   };
 
   const updateLineText = (index: number, newText: string) => {
     const newLines = [...lines];
-    newLines[index].text = newText;
-    setLines(newLines);
+    const line = newLines[index];
+    // Word timings no longer match once the text is edited by hand
+    newLines[index] = { ...line, text: newText, words: undefined };
+    setLines(newLines, { label: 'Edit text', mergeKey: `text-${index}` });
+  };
+
+  const updateLineTranslation = (index: number, track: string, value: string) => {
+      const newLines = [...lines];
+      newLines[index] = { ...newLines[index], translations: { ...newLines[index].translations, [track]: value } };
+      setLines(newLines, { label: 'Edit translation', mergeKey: `translation-${index}-${track}` });
+  };
+
+  const addTranslationTrack = () => {
+      const name = prompt("Name of the new translation track (e.g. English):")?.trim();
+      if (!name || trackNames.includes(name)) return;
+      setLines(lines.map(l => ({ ...l, translations: { ...l.translations, [name]: '' } })), { label: 'Add track' });
+  };
+
+  const removeTranslationTrack = (name: string) => {
+      if (!confirm(`Remove the "${name}" track from every line?`)) return;
+      setLines(lines.map(l => {
+          if (!l.translations) return l;
+          const { [name]: _removed, ...rest } = l.translations;
+          return { ...l, translations: Object.keys(rest).length > 0 ? rest : undefined };
+      }), { label: 'Remove track' });
+  };
+
+  // --- Translation Review (lines that could not be aligned on import) ---
+  const getNearestLineIndexes = (time: number, count: number = 3): number[] => {
+      return lines
+          .map((line, index) => ({ index, distance: Math.abs(line.time - time), empty: line.text.trim() === '' }))
+          .filter(c => !c.empty)
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, count)
+          .map(c => c.index)
+          .sort((a, b) => a - b);
+  };
+
+  const assignPendingTranslation = (item: PendingTranslation) => {
+      const target = pendingTargets[item.id] ?? getNearestLineIndexes(item.time, 1)[0];
+      if (target === undefined || !lines[target]) return;
+      const existing = lines[target].translations?.[item.track]?.trim();
+      if (existing && existing !== item.text.trim() && !confirm(`This line already has a "${item.track}" translation:\n\n${existing}\n\nReplace it?`)) return;
+      history.transact('Assign translation', () => {
+          updateLineTranslation(target, item.track, item.text);
+          setPendingTranslations(prev => prev.filter(p => p.id !== item.id));
+      });
+  };
+
+  const discardPendingTranslation = (id: string) => {
+      setPendingTranslations(prev => prev.filter(p => p.id !== id));
   };
 
   const insertLineAfter = (index: number) => {
@@ -156,95 +546,340 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
       const prevTime = newLines[index].time;
       // Insert new line with same time as previous (or 0)
       newLines.splice(index + 1, 0, { time: prevTime, text: '' });
-      setLines(newLines);
+      setLines(newLines, { label: 'Insert line', mergeKey: null });
   };
 
-  // --- AI Translation Logic ---
-  const handleAiTranslate = async () => {
-      if (lines.length === 0) return;
-      if (!process.env.API_KEY) {
-          alert("API Key not found. Please ensure process.env.API_KEY is configured.");
+  // --- Selection & bulk retiming ---
+  // Indexes shift when lines are added or removed, so the selection (and the lines left to
+  // retry translating, the drafts under review, the targets picked for unmatched translations and a
+  // running translation) would point at other lines
+  useEffect(() => {
+    setSelection([]);
+    setFailedTranslations([]);
+    setReviewDrafts({});
+    setPendingTargets({});
+    selectionAnchorRef.current = null;
+    lineLayoutRef.current++;
+    translationAbortRef.current?.abort();
+  }, [lines.length, isOpen]);
+
+  // Stretch targets start at where the anchor lines are now
+  useEffect(() => {
+    if (selection.length === 0) return;
+    setStretchTargets({ first: lines[selection[0]].time, last: lines[selection[selection.length - 1]].time });
+  }, [selection, lines]);
+
+  // Shift+click selects every line between the last clicked row and this one
+  const toggleSelection = (index: number, extend: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    if (extend && anchor !== null) {
+      const from = Math.min(anchor, index);
+      const range = Array.from({ length: Math.abs(anchor - index) + 1 }, (_, i) => from + i);
+      setSelection(prev => Array.from(new Set([...prev, ...range])).sort((a, b) => a - b));
+    } else {
+      setSelection(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+    }
+    selectionAnchorRef.current = index;
+  };
+
+  const nudgeSelection = (delta: number) => {
+      setLines(shiftLines(lines, selection, delta), { label: 'Nudge lines', mergeKey: 'nudge' });
+  };
+
+  const applyShift = () => {
+      if (!shiftAmount) return;
+      const shifted = shiftLines(lines, selection, shiftAmount);
+      if (shifted === lines) {
+          alert("The selected lines are already against their neighbours. Select the lines in between too to move past them.");
           return;
       }
-      
-      setIsTranslating(true);
+      setLines(shifted, { label: 'Shift lines', mergeKey: null });
+  };
+
+  const applyStretch = () => {
+      if (lines[selection[0]].time === lines[selection[selection.length - 1]].time) {
+          alert("The first and last selected lines start at the same time, so there is nothing to stretch.");
+          return;
+      }
+      if (stretchTargets.last <= stretchTargets.first) {
+          alert("The last line must land after the first one.");
+          return;
+      }
+      const stretched = stretchLines(lines, selection, stretchTargets.first, stretchTargets.last);
+      if (crossesNeighbours(lines, stretched)) {
+          alert("These times would move selected lines past lines that are not selected. Select the lines in between too, or pick closer times.");
+          return;
+      }
+      setLines(stretched, { label: 'Stretch lines', mergeKey: null });
+  };
+
+  // , and . nudge the selection by 10ms (100ms with Shift), unless typing in a field
+  useEffect(() => {
+    if (!isOpen || mode !== 'edit' || showReview || selection.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target;
+      if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return;
+      if (target instanceof HTMLInputElement && target.type !== 'checkbox') return;
+      if (e.code !== 'Comma' && e.code !== 'Period') return;
+      e.preventDefault();
+      const step = e.shiftKey ? 0.1 : 0.01;
+      nudgeSelection(e.code === 'Comma' ? -step : step);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, mode, showReview, selection, lines]);
+
+  // --- Find & replace ---
+  const findResult = useMemo(() => {
+      if (!showFind) return { matches: [] as FindMatch[], error: null };
       try {
-          const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-          
-          // Prepare the prompt
-          const lyricsText = lines.map(l => l.text).filter(t => t.trim() !== ''); 
-          
-          const payload = JSON.stringify(lines.map(l => l.text));
-
-          const sourceInstruction = sourceLang === 'Auto Detect' ? 'Detect the source language automatically.' : `The source language is ${sourceLang}.`;
-
-          const prompt = `
-            You are a professional lyrics translator. 
-            ${sourceInstruction}
-            Translate the following array of song lyric lines into ${targetLang}.
-            
-            Rules:
-            1. Return ONLY a JSON object with a single property 'translations' which is an array of strings.
-            2. The 'translations' array MUST have exactly the same number of elements as the input array.
-            3. If an input line is empty, the corresponding translation string must be empty.
-            4. Keep the translation concise and poetic suitable for singing/subtitles.
-            5. Do NOT include the original text in the translation strings. Return ONLY the translated text.
-            
-            Input JSON:
-            ${payload}
-          `;
-
-          const response = await ai.models.generateContent({
-              model: 'gemini-2.5-flash',
-              contents: prompt,
-              config: { responseMimeType: 'application/json' }
-          });
+          return { matches: findInLyrics(lines, findOptions, replaceText), error: null };
+      } catch (e) {
+          return { matches: [] as FindMatch[], error: (e as Error).message };
+      }
+  }, [showFind, lines, findOptions, replaceText]);
 
-          const result = JSON.parse(response.text);
-          
-          if (result.translations && Array.isArray(result.translations)) {
-              if (result.translations.length !== lines.length) {
-                  alert(`Mismatch in translation line count. Expected ${lines.length}, got ${result.translations.length}. Please try again.`);
-                  return;
-              }
+  // Matches grouped per text field, in line order, for the preview
+  const findGroups = useMemo(() => {
+      const groups = new Map<string, { lineIndex: number; track: string | null; matches: FindMatch[] }>();
+      findResult.matches.forEach(match => {
+          const key = `${match.lineIndex}:${match.track ?? ''}`;
+          if (!groups.has(key)) groups.set(key, { lineIndex: match.lineIndex, track: match.track, matches: [] });
+          groups.get(key)!.matches.push(match);
+      });
+      return Array.from(groups.values());
+  }, [findResult]);
 
-              const mergedLines: LrcLine[] = [];
-
-              lines.forEach((line, idx) => {
-                  // 1. Push Original Line
-                  mergedLines.push(line);
-
-                  // 2. Check and Push Translation Line
-                  const trans = result.translations[idx];
-                  // Ensure translation is valid and distinct from original (to avoid duplicating English if source is English etc)
-                  if (trans && trans.trim() && trans.trim().toLowerCase() !== line.text.trim().toLowerCase()) {
-                      mergedLines.push({
-                          time: line.time, // Same timestamp as original
-                          text: trans.trim()
-                      });
-                  }
-              });
-              
-              setLines(mergedLines);
-          } else {
-              throw new Error("Invalid JSON response structure");
-          }
+  const openFind = () => {
+      setMode('edit');
+      setShowReview(false);
+      setShowFind(true);
+      setTimeout(() => findInputRef.current?.select(), 0);
+  };
+
+  // Ctrl/Cmd+F opens the find bar instead of the browser's
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        openFind();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
 
+  const replaceGroup = (matches: FindMatch[]) => {
+      setLines(replaceMatches(lines, matches), { label: 'Replace', mergeKey: null });
+  };
+
+  const replaceAll = () => {
+      if (findResult.matches.length === 0) return;
+      setLines(replaceMatches(lines, findResult.matches), { label: 'Replace all', mergeKey: null });
+  };
+
+  // --- Lint ---
+  const jumpToLine = (index: number) => {
+      setActiveIndex(index);
+      const el = scrollContainerRef.current?.querySelector(`[data-line-index="${index}"]`);
+      el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const applyLintFix = (issue: LyricLintIssue) => {
+      if (issue.fix === 'split') setLines(splitLyricLine(lines, issue.lineIndex), { label: 'Split line', mergeKey: null });
+      else if (issue.fix === 'extend') setLines(extendLyricLine(lines, issue.lineIndex), { label: 'Extend line', mergeKey: null });
+  };
+
+  // --- AI Translation Logic ---
+  const updateTranslationSettings = (settings: TranslationSettings) => {
+      setTranslationSettings(settings);
+      saveTranslationSettings(settings);
+  };
+
+  // Shared by Create Bilingual and the review's regenerate. only: just these line indexes.
+  // Resolves to null when the request failed outright (already reported).
+  const runTranslation = async (target: string, only?: number[], instructions?: string): Promise<TranslationResult | null> => {
+      const controller = new AbortController();
+      translationAbortRef.current = controller;
+      const subset = only ? new Set(only) : null;
+      setIsTranslating(true);
+      try {
+          return await translateLines(lines.map((l, i) => !subset || subset.has(i) ? l.text : ''), {
+              sourceLang,
+              targetLang: target,
+              settings: translationSettings,
+              glossary,
+              instructions,
+              signal: controller.signal,
+              onProgress: setTranslationProgress,
+          });
       } catch (e) {
           console.error("Translation failed", e);
-          alert("Translation failed. Please try again later.");
+          alert(`Translation failed: ${(e as Error).message}`);
+          return null;
       } finally {
           setIsTranslating(false);
+          setTranslationProgress(null);
+          translationAbortRef.current = null;
       }
   };
 
+  const reportDiscardedTranslation = () => {
+      alert("Lines were added or removed while translating, so the results were discarded. Run the translation again.");
+  };
+
+  // only: translate just these line indexes (retrying the ones a previous run missed)
+  const handleAiTranslate = async (only?: number[]) => {
+      if (lines.length === 0) return;
+      const layout = lineLayoutRef.current;
+      const provider = translationSettings.provider;
+      const wanted = (only ?? lines.map((_, i) => i)).filter(i => lines[i]?.text.trim());
+
+      // Lines translated before (same text, languages, provider, model and glossary terms) come from memory, not the model
+      const remembered = new Map<number, string>();
+      if (reuseTranslations) {
+          try {
+              const found = await lookupTranslationMemory(wanted.map(i => lines[i].text), sourceLang, targetLang, provider, translationSettings.model, glossary);
+              wanted.forEach(i => {
+                  const cached = found.get(lines[i].text);
+                  if (cached !== undefined) remembered.set(i, cached);
+              });
+          } catch (e) {
+              console.warn("Translation memory unavailable", e);
+          }
+      }
+
+      const toSend = wanted.filter(i => !remembered.has(i));
+      const result: TranslationResult | null = toSend.length > 0
+          ? await runTranslation(targetLang, toSend)
+          : { translations: new Map(), failed: [], cancelled: false };
+      if (!result && remembered.size === 0) return;
+      const translations = new Map([...remembered, ...(result?.translations ?? [])]);
+
+      if (result && result.translations.size > 0) {
+          const fresh = [...result.translations].filter(([, text]) => text.trim());
+          saveToTranslationMemory(fresh.map(([idx, text]) => ({
+              sourceText: lines[idx].text,
+              sourceLang,
+              targetLang,
+              provider,
+              model: translationSettings.model,
+              glossaryHash: getGlossaryHash(lines[idx].text, glossary),
+              translation: text.trim(),
+          })))
+              .catch(e => console.warn("Could not update the translation memory", e));
+      }
+      // The memory is keyed by text and stays valid; the indexes no longer are
+      if (layout !== lineLayoutRef.current) {
+          reportDiscardedTranslation();
+          return;
+      }
+
+      // Store as a named track on each line; re-translating replaces the same track.
+      // Whatever succeeded is kept, also when some chunks failed or the run was cancelled.
+      if (translations.size > 0) {
+          setLines(prev => prev.map((line, idx) => {
+              const trans = translations.get(idx);
+              if (line.text !== lines[idx]?.text) return line; // Edited while translating
+              // Ensure translation is valid and distinct from original (to avoid duplicating English if source is English etc)
+              if (trans && trans.trim() && trans.trim().toLowerCase() !== line.text.trim().toLowerCase()) {
+                  return { ...line, translations: { ...line.translations, [targetLang]: trans.trim() } };
+              }
+              return line;
+          }), { label: 'AI translation', mergeKey: null });
+      }
+
+      if (!result) return;
+      setFailedTranslations(result.failed);
+      if (!result.cancelled && result.failed.length > 0) {
+          alert(`${result.failed.length} line(s) could not be translated after several retries. The other lines were kept; use "Retry Missing" to try again.`);
+      }
+  };
+
+  // --- Translation review ---
+  const reviewedTrack = trackNames.includes(reviewTrack) ? reviewTrack : trackNames[0];
+
+  const openReview = (track: string) => {
+      setMode('edit');
+      setShowFind(false);
+      setReviewTrack(track);
+      setReviewDrafts({});
+      setShowReview(true);
+  };
+
+  // Regenerated lines become drafts next to the current translation instead of replacing it
+  const regenerateTranslations = async (indexes: number[], instructions: string) => {
+      const only = indexes.filter(i => lines[i]?.text.trim());
+      if (only.length === 0 || !reviewedTrack) return;
+      const layout = lineLayoutRef.current;
+      const result = await runTranslation(reviewedTrack, only, instructions);
+      if (!result) return;
+      if (layout !== lineLayoutRef.current) {
+          reportDiscardedTranslation();
+          return;
+      }
+      setReviewDrafts(prev => {
+          const next = { ...prev };
+          result.translations.forEach((text, idx) => { if (text.trim()) next[idx] = text.trim(); });
+          return next;
+      });
+      if (!result.cancelled && result.failed.length > 0) {
+          alert(`${result.failed.length} line(s) could not be regenerated.`);
+      }
+  };
+
+  const discardDrafts = (indexes: number[]) => {
+      setReviewDrafts(prev => {
+          const next = { ...prev };
+          indexes.forEach(i => delete next[i]);
+          return next;
+      });
+  };
+
+  const acceptDrafts = (indexes: number[]) => {
+      const accepted = indexes.filter(i => reviewDrafts[i] !== undefined);
+      if (accepted.length === 0) return;
+      setLines(lines.map((line, idx) => accepted.includes(idx)
+          ? { ...line, translations: { ...line.translations, [reviewedTrack]: reviewDrafts[idx] } }
+          : line
+      ), { label: accepted.length > 1 ? 'Accept translations' : 'Accept translation', mergeKey: null });
+      // The accepted wording is what the next Create Bilingual should reuse
+      saveToTranslationMemory(accepted.map(idx => ({
+          sourceText: lines[idx].text,
+          sourceLang,
+          targetLang: reviewedTrack,
+          provider: translationSettings.provider,
+          model: translationSettings.model,
+          glossaryHash: getGlossaryHash(lines[idx].text, glossary),
+          translation: reviewDrafts[idx],
+      }))).catch(e => console.warn("Could not update the translation memory", e));
+      discardDrafts(accepted);
+  };
+
+  // Closing the editor stops a running translation
+  useEffect(() => {
+    if (!isOpen) translationAbortRef.current?.abort();
+  }, [isOpen]);
+
   const handleDownload = () => {
-      const content = generateLrc(lines);
-      const blob = new Blob([content], { type: 'text/plain' });
+      let content: string;
+      let mimeType = 'text/plain';
+      if (exportFormat === 'srt') {
+          content = generateSrt(lines);
+      } else if (exportFormat === 'vtt') {
+          content = generateVtt(lines);
+          mimeType = 'text/vtt';
+      } else if (exportFormat === 'ass') {
+          content = generateAss(lines, assOptions);
+      } else {
+          content = generateLrc(lines, { tags: lrcTags, precision: exportPrecision, stripRuby: exportStripRuby });
+      }
+      const blob = new Blob([content], { type: mimeType });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'lyrics.lrc';
+      a.download = `lyrics.${exportFormat}`;
       a.click();
   };
 
@@ -273,14 +908,73 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
                 >
                     Record Sync
                 </button>
+                <button 
+                  onClick={() => setMode('hold-sync')}
+                  className={`px-3 py-1 text-xs rounded-md transition ${mode === 'hold-sync' ? 'bg-emerald-600 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                    Hold Sync
+                </button>
+                <button 
+                  onClick={() => { setMode('word-sync'); setWordIndex(0); }}
+                  className={`px-3 py-1 text-xs rounded-md transition ${mode === 'word-sync' ? 'bg-purple-600 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                    Word Sync
+                </button>
              </div>
           </div>
           <div className="flex items-center gap-2">
-             <button onClick={handleDownload} className="p-2 text-gray-400 hover:text-green-400" title="Export .lrc">
-                <Download size={20} />
+             <button 
+                onClick={() => showFind ? setShowFind(false) : openFind()}
+                disabled={lines.length === 0}
+                className={`p-2 rounded border border-gray-700 disabled:opacity-30 ${showFind ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                title="Find & Replace (Ctrl+F)"
+             >
+                <Search size={18} />
              </button>
              <button 
-                onClick={() => { onSave(lines); onClose(); }}
+                onClick={() => showReview ? setShowReview(false) : openReview(targetLang)}
+                disabled={trackNames.length === 0}
+                className={`p-2 rounded border border-gray-700 disabled:opacity-30 ${showReview && mode === 'edit' ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                title="Review translations side by side"
+             >
+                <Columns2 size={18} />
+             </button>
+             <div className="flex items-center bg-gray-800 rounded border border-gray-700">
+                 <button 
+                    onClick={history.undo}
+                    disabled={!historyStatus.undoLabel}
+                    className="p-2 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                    title={historyStatus.undoLabel ? `Undo ${historyStatus.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                 >
+                    <Undo2 size={18} />
+                 </button>
+                 <button 
+                    onClick={history.redo}
+                    disabled={!historyStatus.redoLabel}
+                    className="p-2 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+                    title={historyStatus.redoLabel ? `Redo ${historyStatus.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                 >
+                    <Redo2 size={18} />
+                 </button>
+             </div>
+             <div className="flex items-center bg-gray-800 rounded border border-gray-700">
+                 <select 
+                   value={exportFormat}
+                   onChange={(e) => setExportFormat(e.target.value as LyricFileFormat | 'ass')}
+                   className="bg-transparent text-xs text-gray-300 pl-2 outline-none border-none cursor-pointer"
+                   title="Export format"
+                 >
+                     <option value="lrc">.lrc</option>
+                     <option value="srt">.srt</option>
+                     <option value="vtt">.vtt</option>
+                     <option value="ass">.ass (styled)</option>
+                 </select>
+                 <button onClick={handleDownload} className="p-2 text-gray-400 hover:text-green-400" title={`Export .${exportFormat}`}>
+                    <Download size={20} />
+                 </button>
+             </div>
+             <button 
+                onClick={() => { history.closeScope(); onSave(lines, pendingTranslations, glossary); onClose(); }}
                 className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded text-sm font-medium transition shadow-lg hover:shadow-blue-500/20"
              >
                 <Save size={16} /> Save & Apply
@@ -304,9 +998,12 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
                   </div>
                   <div className="flex justify-center gap-4">
                       <button 
-                         onClick={() => { seekTo(0); setActiveIndex(0); }} 
+                         onClick={() => {
+                             if (syncRange) { startSyncRange(syncRange.start, syncRange.end); return; }
+                             seekTo(0); setActiveIndex(0); setWordIndex(0);
+                         }} 
                          className="p-3 bg-gray-700 rounded-full hover:bg-gray-600 transition"
-                         title="Restart"
+                         title={syncRange ? "Restart range" : "Restart"}
                       >
                          <RotateCcw size={18} />
                       </button>
@@ -337,6 +1034,158 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
                       <p className="text-[10px] text-gray-500 mt-1">Adjusts recorded time to compensate for reaction delay.</p>
                   </div>
 
+                  {/* Playback Speed */}
+                  <div className="p-3 bg-gray-800/50 rounded border border-gray-700/50">
+                      <label className="text-xs text-gray-400 mb-2 flex items-center justify-between">
+                        <span className="flex items-center gap-2"><Gauge size={12} /> Playback Speed</span>
+                        <span className="font-mono text-gray-300">{playbackRate.toFixed(2)}×</span>
+                      </label>
+                      <input 
+                         type="range" 
+                         min="0.5" 
+                         max="1" 
+                         step="0.05" 
+                         value={playbackRate} 
+                         onChange={(e) => setPlaybackRate(Number(e.target.value))}
+                         className="w-full accent-blue-500"
+                      />
+                      <p className="text-[10px] text-gray-500 mt-1">Taps are still recorded in song time.</p>
+                  </div>
+
+                  {/* Re-sync Range */}
+                  {lines.length > 0 && (
+                      <div className="p-3 bg-gray-800/50 rounded border border-gray-700/50 space-y-2">
+                          <label className="text-xs text-gray-400 flex items-center gap-2">
+                            <ListRestart size={12} /> Re-sync Lines
+                          </label>
+                          <div className="flex items-center gap-2 text-xs text-gray-400">
+                              <input 
+                                 type="number" 
+                                 min="1" 
+                                 max={lines.length}
+                                 value={rangeInput.from} 
+                                 onChange={(e) => setRangeInput({ ...rangeInput, from: Number(e.target.value) })}
+                                 className="w-14 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-center outline-none focus:border-blue-500"
+                                 title="First line"
+                              />
+                              <span>to</span>
+                              <input 
+                                 type="number" 
+                                 min="1" 
+                                 max={lines.length}
+                                 value={rangeInput.to} 
+                                 onChange={(e) => setRangeInput({ ...rangeInput, to: Number(e.target.value) })}
+                                 className="w-14 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-center outline-none focus:border-blue-500"
+                                 title="Last line"
+                              />
+                          </div>
+                          <div className="flex items-center gap-2 text-xs text-gray-400">
+                              <span>Pre-roll</span>
+                              <input 
+                                 type="number" 
+                                 min="0" 
+                                 step="0.5" 
+                                 value={preRoll} 
+                                 onChange={(e) => setPreRoll(Math.max(0, Number(e.target.value)))}
+                                 className="w-14 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-center outline-none focus:border-blue-500"
+                              />
+                              <span>s</span>
+                          </div>
+                          <button 
+                             onClick={() => startSyncRange(rangeInput.from - 1, rangeInput.to - 1)}
+                             className="w-full py-1.5 border border-gray-700 text-gray-300 rounded text-xs hover:bg-gray-700 flex items-center justify-center gap-2 transition"
+                          >
+                              <ListRestart size={12} /> Re-sync Range
+                          </button>
+                          {syncRange && (
+                              <div className="flex items-center justify-between text-[10px] text-blue-300">
+                                  <span>Recording lines {syncRange.start + 1}–{syncRange.end + 1}</span>
+                                  <button onClick={() => setSyncRange(null)} className="text-gray-500 hover:text-white">Cancel</button>
+                              </div>
+                          )}
+                      </div>
+                  )}
+
+                  <div className="flex items-center gap-2 p-3 bg-gray-800/50 rounded border border-gray-700/50">
+                      <input 
+                         type="checkbox" 
+                         id="exportPrecision"
+                         checked={exportPrecision === 3}
+                         onChange={(e) => setExportPrecision(e.target.checked ? 3 : 2)}
+                         className="rounded border-gray-600 bg-gray-700 text-blue-600"
+                      />
+                      <label htmlFor="exportPrecision" className="text-xs text-gray-400 cursor-pointer select-none">Export milliseconds (mm:ss.xxx)</label>
+                  </div>
+
+                  <div className="flex items-center gap-2 p-3 bg-gray-800/50 rounded border border-gray-700/50">
+                      <input 
+                         type="checkbox" 
+                         id="exportStripRuby"
+                         checked={exportStripRuby}
+                         onChange={(e) => setExportStripRuby(e.target.checked)}
+                         className="rounded border-gray-600 bg-gray-700 text-blue-600"
+                      />
+                      <label htmlFor="exportStripRuby" className="text-xs text-gray-400 cursor-pointer select-none">Strip ruby {'{readings}'} from LRC export</label>
+                  </div>
+
+                   {/* Beat Snap */}
+                   <div className="p-3 bg-gray-800/50 rounded border border-gray-700/50 space-y-2">
+                       <label className="text-xs text-gray-400 flex items-center gap-2">
+                         <Magnet size={12} /> Beat Snap
+                       </label>
+                       {!audioAnalysis ? (
+                           <button 
+                              onClick={handleAnalyze}
+                              disabled={isAnalyzing || !audioSrc}
+                              className="w-full py-2 bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 rounded text-xs flex items-center justify-center gap-2 transition"
+                           >
+                               {isAnalyzing ? <><Loader2 size={12} className="animate-spin"/> Analyzing...</> : <><Activity size={12} /> Analyze Beats</>}
+                           </button>
+                       ) : (
+                           <>
+                               <p className="text-[10px] text-gray-500">{audioAnalysis.bpm} BPM · {audioAnalysis.onsets.length} onsets</p>
+                               <div className="flex items-center gap-2">
+                                   <input 
+                                      type="checkbox" 
+                                      id="snapEnabled"
+                                      checked={snapEnabled}
+                                      onChange={(e) => setSnapEnabled(e.target.checked)}
+                                      className="rounded border-gray-600 bg-gray-700 text-blue-600"
+                                   />
+                                   <label htmlFor="snapEnabled" className="text-xs text-gray-400 cursor-pointer select-none">Snap taps & drags</label>
+                               </div>
+                               <div className="flex items-center gap-2">
+                                   <select 
+                                     value={snapTarget}
+                                     onChange={(e) => setSnapTarget(e.target.value as SnapTarget)}
+                                     className="flex-1 bg-gray-900 border border-gray-700 rounded px-1 py-1 text-xs text-gray-300 outline-none"
+                                   >
+                                       <option value="onset">Onsets</option>
+                                       <option value="beat">Beat grid</option>
+                                   </select>
+                                   <input 
+                                      type="number" 
+                                      min="10"
+                                      step="10"
+                                      value={snapTolerance}
+                                      onChange={(e) => setSnapTolerance(Math.max(0, Number(e.target.value)))}
+                                      className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-center outline-none focus:border-blue-500"
+                                      title="Snap tolerance (ms)"
+                                   />
+                                   <span className="text-[10px] text-gray-500">ms</span>
+                               </div>
+                               {lines.length > 0 && (
+                                   <button 
+                                      onClick={snapAllLines}
+                                      className="w-full py-1.5 border border-gray-700 text-gray-300 rounded text-xs hover:bg-gray-700 flex items-center justify-center gap-2 transition"
+                                   >
+                                       <Magnet size={12} /> Snap All Lines
+                                   </button>
+                               )}
+                           </>
+                       )}
+                   </div>
+
                    {/* AI Translation Panel */}
                    {mode === 'edit' && lines.length > 0 && (
                        <div className="p-3 bg-gradient-to-b from-blue-900/10 to-purple-900/10 rounded border border-blue-500/30">
@@ -345,6 +1194,38 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
                            </label>
                            
                            <div className="space-y-3">
+                               <button 
+                                  onClick={() => setShowTranslationSettings(!showTranslationSettings)}
+                                  className="w-full flex items-center gap-1 text-[10px] text-gray-400 hover:text-white"
+                               >
+                                   {showTranslationSettings ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+                                   <Settings size={10} />
+                                   <span className="truncate">{TRANSLATION_PROVIDERS[translationSettings.provider].label}{translationSettings.provider !== 'mock' && ` · ${translationSettings.model}`}</span>
+                               </button>
+                               {showTranslationSettings && (
+                                   <TranslationSettingsPanel 
+                                      settings={translationSettings}
+                                      onChange={updateTranslationSettings}
+                                      disabled={isTranslating}
+                                   />
+                               )}
+
+                               <button 
+                                  onClick={() => setShowGlossary(!showGlossary)}
+                                  className="w-full flex items-center gap-1 text-[10px] text-gray-400 hover:text-white"
+                               >
+                                   {showGlossary ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+                                   <BookA size={10} />
+                                   <span>Glossary{glossary.length > 0 && ` (${glossary.length})`}</span>
+                               </button>
+                               {showGlossary && (
+                                   <GlossaryEditor 
+                                      glossary={glossary}
+                                      onChange={setGlossary}
+                                      disabled={isTranslating}
+                                   />
+                               )}
+
                                {/* Source Lang */}
                                <div>
                                    <label className="text-[10px] text-gray-400 block mb-1">Source Language</label>
@@ -374,7 +1255,7 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
                                        <Languages size={14} className="text-blue-400"/>
                                        <select 
                                          value={targetLang} 
-                                         onChange={(e) => setTargetLang(e.target.value)}
+                                         onChange={(e) => { setTargetLang(e.target.value); setFailedTranslations([]); }}
                                          className="bg-transparent text-xs text-white w-full outline-none border-none cursor-pointer"
                                          disabled={isTranslating}
                                        >
@@ -386,19 +1267,71 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
                                    </div>
                                </div>
 
+                               <div className="flex items-center justify-between gap-2">
+                                   <label className="flex items-center gap-1.5 text-[10px] text-gray-400 cursor-pointer" title="Lines translated before with the same languages and provider are not sent again">
+                                       <input 
+                                          type="checkbox" 
+                                          checked={reuseTranslations}
+                                          onChange={(e) => setReuseTranslations(e.target.checked)}
+                                          className="rounded border-gray-600 bg-gray-700 text-blue-600"
+                                          disabled={isTranslating}
+                                       />
+                                       Reuse cached translations
+                                   </label>
+                                   <button 
+                                      onClick={() => setShowTranslationMemory(true)}
+                                      className="p-1 text-gray-500 hover:text-white"
+                                      title="Browse translation memory"
+                                   >
+                                       <Database size={12} />
+                                   </button>
+                               </div>
                                <button 
-                                   onClick={handleAiTranslate}
+                                   onClick={() => handleAiTranslate()}
                                    disabled={isTranslating}
                                    className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-400 text-white rounded text-xs font-bold transition flex items-center justify-center gap-2 mt-2"
                                >
                                    {isTranslating ? (
-                                       <><Loader2 size={12} className="animate-spin"/> Translating...</>
+                                       <><Loader2 size={12} className="animate-spin"/> Translating{translationProgress ? ` ${translationProgress.done}/${translationProgress.total}` : '...'}</>
                                    ) : (
                                        <><Sparkles size={12} /> Create Bilingual</>
                                    )}
                                </button>
+                               {isTranslating && (
+                                   <>
+                                       {translationProgress && translationProgress.total > 0 && (
+                                           <div className="h-1 bg-gray-700 rounded overflow-hidden">
+                                               <div className="h-full bg-blue-500 transition-all" style={{ width: `${(translationProgress.done / translationProgress.total) * 100}%` }} />
+                                           </div>
+                                       )}
+                                       <button
+                                           onClick={() => translationAbortRef.current?.abort()}
+                                           className="w-full py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded text-xs transition flex items-center justify-center gap-1"
+                                           title="Stop translating; lines already translated are kept"
+                                       >
+                                           <X size={12} /> Cancel
+                                       </button>
+                                   </>
+                               )}
+                               {!isTranslating && failedTranslations.length > 0 && (
+                                   <button
+                                       onClick={() => handleAiTranslate(failedTranslations)}
+                                       className="w-full py-1 bg-amber-700/60 hover:bg-amber-600/60 text-amber-100 rounded text-xs transition flex items-center justify-center gap-1"
+                                       title="Translate only the lines the last run could not translate"
+                                   >
+                                       <RotateCcw size={12} /> Retry Missing ({failedTranslations.length})
+                                   </button>
+                               )}
+                               {!isTranslating && trackNames.length > 0 && (
+                                   <button
+                                       onClick={() => openReview(trackNames.includes(targetLang) ? targetLang : trackNames[0])}
+                                       className="w-full py-1 bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-200 rounded text-xs transition flex items-center justify-center gap-1"
+                                   >
+                                       <Columns2 size={12} /> Review Translations
+                                   </button>
+                               )}
                                <p className="text-[9px] text-gray-500 text-center leading-tight">
-                                   Generates new lines for translation with identical timestamps.
+                                   Adds a translation track under each line. Re-running replaces the track.
                                </p>
                            </div>
                        </div>
@@ -411,7 +1344,7 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
                           <button 
                              onClick={() => {
                                  if(confirm("This will reset all timestamps to 00:00.00. Use this if you want to re-record timing from scratch.")) {
-                                     setLines(lines.map(l => ({...l, time: 0})));
+                                     setLines(lines.map(l => ({...l, time: 0})), { label: 'Reset timestamps', mergeKey: null });
                                  }
                              }}
                              className="w-full py-2.5 px-3 border border-red-900/50 text-red-400 rounded text-xs hover:bg-red-900/10 flex items-center gap-2 transition"
@@ -424,139 +1357,575 @@ export const LyricEditor: React.FC<LyricEditorProps> = ({
             </div>
 
             {/* Main Area */}
-            <div className="flex-1 bg-gray-950 overflow-y-auto relative" ref={scrollContainerRef}>
-               {lines.length === 0 ? (
-                  <div className="h-full flex flex-col items-center justify-center p-8 max-w-2xl mx-auto">
-                      <div className="w-16 h-16 bg-gray-900 rounded-full flex items-center justify-center mb-6 border border-gray-800">
-                        <Plus size={32} className="text-gray-600" />
-                      </div>
-                      <h3 className="text-xl font-bold text-gray-300 mb-2">No Lyrics Yet</h3>
-                      <p className="text-gray-500 text-center mb-6">Paste your lyrics text below to get started. Don't worry about timestamps yet.</p>
-                      
-                      <textarea 
-                         className="w-full h-64 bg-gray-900 border border-gray-700 rounded-xl p-4 text-gray-300 focus:outline-none focus:border-blue-500 resize-none font-mono text-sm leading-relaxed shadow-inner"
-                         placeholder="Paste lyrics here..."
-                         value={inputText}
-                         onChange={(e) => setInputText(e.target.value)}
-                      />
-                      <button 
-                         onClick={handleParseText}
-                         disabled={!inputText.trim()}
-                         className="mt-6 px-8 py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-lg font-bold transition shadow-lg hover:shadow-blue-500/25"
-                      >
-                         Start Editing
-                      </button>
-                  </div>
-               ) : (
-                   <div className="p-4 space-y-1 pb-32">
-                      {mode === 'sync' && (
-                          <div className="sticky top-0 z-10 bg-gray-950/95 backdrop-blur border-b border-gray-800 p-4 mb-4 text-center rounded-lg shadow-xl ring-1 ring-gray-800">
-                              <p className="text-gray-400 text-sm mb-3">
-                                  Press <kbd className="font-sans font-bold bg-gray-800 text-gray-200 px-2 py-0.5 rounded border border-gray-700 shadow-sm mx-1">SPACE</kbd> 
-                                  or tap the button below to mark the current line.
-                              </p>
-                              <button 
-                                 onClick={handleTap}
-                                 className="w-full py-8 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 rounded-xl text-2xl font-bold text-white shadow-xl shadow-blue-900/20 active:scale-[0.99] transition-all"
-                              >
-                                  TAP HERE
-                              </button>
+            <div className="flex-1 flex flex-col min-w-0">
+                {lines.length > 0 && (
+                    <WaveformTimeline 
+                       waveform={waveform}
+                       isLoading={isDecoding}
+                       lines={lines}
+                       currentTime={currentTime}
+                       activeIndex={activeIndex}
+                       snapTimes={snapEnabled ? snapTimes : undefined}
+                       onSeek={seekTo}
+                       onRetime={(index, time) => updateLineTime(index, snap(time))}
+                       onSelectLine={jumpToLine}
+                    />
+                )}
+                <div className="flex-1 bg-gray-950 overflow-y-auto relative" ref={scrollContainerRef}>
+                   {lines.length === 0 ? (
+                      <div className="h-full flex flex-col items-center justify-center p-8 max-w-2xl mx-auto">
+                          <div className="w-16 h-16 bg-gray-900 rounded-full flex items-center justify-center mb-6 border border-gray-800">
+                            <Plus size={32} className="text-gray-600" />
                           </div>
-                      )}
-
-                      {lines.map((line, idx) => (
-                          <div 
-                             key={idx}
-                             className={`group flex items-center gap-3 p-2 rounded-lg border transition-all duration-200 ${
-                                 idx === activeIndex 
-                                 ? 'bg-blue-900/20 border-blue-500/50 shadow-md shadow-blue-900/10' 
-                                 : 'bg-gray-900/50 border-gray-800 hover:border-gray-700 hover:bg-gray-800'
-                             }`}
+                          <h3 className="text-xl font-bold text-gray-300 mb-2">No Lyrics Yet</h3>
+                          <p className="text-gray-500 text-center mb-6">Paste your lyrics text below to get started. Don't worry about timestamps yet.</p>
+                      
+                          <textarea 
+                             className="w-full h-64 bg-gray-900 border border-gray-700 rounded-xl p-4 text-gray-300 focus:outline-none focus:border-blue-500 resize-none font-mono text-sm leading-relaxed shadow-inner"
+                             placeholder="Paste lyrics here..."
+                             value={inputText}
+                             onChange={(e) => setInputText(e.target.value)}
+                          />
+                          <button 
+                             onClick={handleParseText}
+                             disabled={!inputText.trim()}
+                             className="mt-6 px-8 py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-600 rounded-lg font-bold transition shadow-lg hover:shadow-blue-500/25"
                           >
-                              {/* Time Input/Display */}
-                              <div className="flex flex-col items-center min-w-[80px]">
-                                  {mode === 'edit' ? (
-                                      <input 
-                                         type="number" 
-                                         step="0.1" 
-                                         value={line.time === 0 ? 0 : Number(line.time).toFixed(2)}
-                                         onChange={(e) => updateLineTime(idx, parseFloat(e.target.value))}
-                                         className={`w-20 bg-black/40 border rounded px-2 py-1 text-xs font-mono text-center outline-none focus:border-blue-500 transition ${line.time === 0 ? 'border-red-900/50 text-gray-500' : 'border-gray-700 text-blue-300'}`}
-                                         title="Timestamp (seconds)"
-                                      />
-                                  ) : (
-                                      <span className={`font-mono text-sm ${line.time > 0 ? 'text-blue-300' : 'text-gray-600'}`}>
-                                          {formatTime(line.time)}
-                                      </span>
-                                  )}
+                             Start Editing
+                          </button>
+                      </div>
+                   ) : mode === 'edit' && showReview && reviewedTrack ? (
+                       <TranslationReview 
+                          lines={lines}
+                          track={reviewedTrack}
+                          trackNames={trackNames}
+                          onTrackChange={(track) => { setReviewTrack(track); setReviewDrafts({}); }}
+                          drafts={reviewDrafts}
+                          selection={selection}
+                          onToggleSelection={toggleSelection}
+                          onSelectAll={(selected) => setSelection(selected ? lines.map((_, i) => i) : [])}
+                          onEdit={(index, text) => updateLineTranslation(index, reviewedTrack, text)}
+                          onAccept={acceptDrafts}
+                          onDiscard={discardDrafts}
+                          onRegenerate={regenerateTranslations}
+                          onSeek={seekTo}
+                          isBusy={isTranslating}
+                       />
+                   ) : (
+                       <div className="p-4 space-y-1 pb-32">
+                          {mode !== 'edit' && (
+                              <div className="sticky top-0 z-10 bg-gray-950/95 backdrop-blur border-b border-gray-800 p-4 mb-4 text-center rounded-lg shadow-xl ring-1 ring-gray-800">
+                                  <p className="text-gray-400 text-sm mb-3">
+                                      Press <kbd className="font-sans font-bold bg-gray-800 text-gray-200 px-2 py-0.5 rounded border border-gray-700 shadow-sm mx-1">SPACE</kbd> 
+                                      {mode === 'word-sync' ? (
+                                          <>
+                                              or tap the button below to mark the highlighted word. 
+                                              <kbd className="font-sans font-bold bg-gray-800 text-gray-200 px-2 py-0.5 rounded border border-gray-700 shadow-sm mx-1">BACKSPACE</kbd> steps back.
+                                          </>
+                                      ) : mode === 'hold-sync'
+                                          ? 'or hold the button below while the current line is sung; release when it ends.'
+                                          : 'or tap the button below to mark the current line.'}
+                                  </p>
+                                  <div className="flex gap-2">
+                                      {mode === 'word-sync' && (
+                                          <button 
+                                             onClick={stepBackWord}
+                                             className="px-4 bg-gray-800 hover:bg-gray-700 rounded-xl text-gray-300 border border-gray-700 transition"
+                                             title="Step back one word"
+                                          >
+                                              <StepBack size={20} />
+                                          </button>
+                                      )}
+                                      {mode === 'hold-sync' ? (
+                                          <button 
+                                             onPointerDown={handleHoldStart}
+                                             onPointerUp={handleHoldEnd}
+                                             onPointerLeave={handleHoldEnd}
+                                             className={`flex-1 py-8 rounded-xl text-2xl font-bold text-white shadow-xl transition-all select-none ${holdStart ? 'bg-emerald-500 scale-[0.99] shadow-emerald-900/30' : 'bg-gradient-to-r from-emerald-600 to-blue-600 hover:from-emerald-500 hover:to-blue-500 shadow-blue-900/20'}`}
+                                          >
+                                              {holdStart ? 'RECORDING…' : 'HOLD HERE'}
+                                          </button>
+                                      ) : (
+                                          <button 
+                                             onClick={mode === 'word-sync' ? handleWordTap : handleTap}
+                                             className="flex-1 py-8 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 rounded-xl text-2xl font-bold text-white shadow-xl shadow-blue-900/20 active:scale-[0.99] transition-all"
+                                          >
+                                              TAP HERE
+                                          </button>
+                                      )}
+                                  </div>
                               </div>
+                          )}
 
-                              {/* Text Input/Display */}
-                              <div className="flex-1 min-w-0">
-                                  {mode === 'edit' ? (
-                                      <input 
-                                         type="text" 
-                                         value={line.text}
-                                         onChange={(e) => updateLineText(idx, e.target.value)}
-                                         className="w-full bg-transparent border-none text-gray-200 focus:ring-0 p-1 text-base rounded hover:bg-white/5 transition focus:bg-white/5 placeholder-gray-700"
-                                         placeholder="(Empty line)"
-                                      />
-                                  ) : (
-                                      <div 
-                                        className={`text-lg cursor-pointer truncate px-2 py-1 rounded hover:bg-white/5 transition ${idx === activeIndex ? 'text-white font-bold' : 'text-gray-400'}`}
-                                        onDoubleClick={() => seekTo(line.time)}
-                                        title="Double click to jump to time"
-                                      >
-                                          {line.text || <span className="text-gray-700 italic text-sm">Empty Line</span>}
+                          {mode === 'edit' && showFind && (
+                              <div className="mb-4 p-3 bg-gray-900 border border-gray-700 rounded-lg space-y-2 text-xs">
+                                  <div className="flex items-center gap-2">
+                                      <div className="flex-1 flex items-center gap-1 bg-black/40 border border-gray-700 rounded px-2 focus-within:border-blue-500">
+                                          <Search size={12} className="text-gray-500" />
+                                          <input 
+                                             ref={findInputRef}
+                                             type="text" 
+                                             value={findOptions.query}
+                                             onChange={(e) => setFindOptions({ ...findOptions, query: e.target.value })}
+                                             onKeyDown={(e) => { if (e.key === 'Escape') setShowFind(false); }}
+                                             placeholder="Find"
+                                             className="flex-1 bg-transparent py-1 outline-none text-gray-200"
+                                          />
+                                          {[
+                                              { key: 'caseSensitive' as const, icon: <CaseSensitive size={14} />, title: 'Match case' },
+                                              { key: 'wholeWord' as const, icon: <WholeWord size={14} />, title: 'Whole word' },
+                                              { key: 'regex' as const, icon: <Regex size={14} />, title: 'Regular expression' },
+                                          ].map(toggle => (
+                                              <button 
+                                                 key={toggle.key}
+                                                 onClick={() => setFindOptions({ ...findOptions, [toggle.key]: !findOptions[toggle.key] })}
+                                                 className={`p-0.5 rounded ${findOptions[toggle.key] ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-white'}`}
+                                                 title={toggle.title}
+                                              >
+                                                  {toggle.icon}
+                                              </button>
+                                          ))}
                                       </div>
-                                  )}
-                              </div>
-
-                              {/* Action Buttons (Edit Mode Only) */}
-                              {mode === 'edit' && (
-                                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                      <button 
-                                          onClick={() => seekTo(line.time)}
-                                          className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition"
-                                          title="Play from this timestamp"
+                                      <select 
+                                         value={findOptions.scope}
+                                         onChange={(e) => setFindOptions({ ...findOptions, scope: e.target.value as FindScope })}
+                                         className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-gray-300 outline-none"
+                                         title="Search in"
                                       >
-                                          <Play size={14} />
+                                          <option value="all">Lyrics & translations</option>
+                                          <option value="original">Original lyrics only</option>
+                                          <option value="translations">Translations only</option>
+                                      </select>
+                                      <button onClick={() => setShowFind(false)} className="p-1 text-gray-500 hover:text-white" title="Close (Esc)">
+                                          <X size={14} />
                                       </button>
+                                  </div>
+                                  <div className="flex items-center gap-2">
+                                      <div className="flex-1 flex items-center gap-1 bg-black/40 border border-gray-700 rounded px-2 focus-within:border-blue-500">
+                                          <Replace size={12} className="text-gray-500" />
+                                          <input 
+                                             type="text" 
+                                             value={replaceText}
+                                             onChange={(e) => setReplaceText(e.target.value)}
+                                             placeholder={findOptions.regex ? 'Replace ($1 for groups)' : 'Replace'}
+                                             className="flex-1 bg-transparent py-1 outline-none text-gray-200"
+                                          />
+                                      </div>
                                       <button 
-                                          onClick={() => insertLineAfter(idx)}
-                                          className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-green-400 transition"
-                                          title="Insert line below"
+                                         onClick={replaceAll}
+                                         disabled={findResult.matches.length === 0}
+                                         className="flex items-center gap-1 px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 rounded text-[10px] font-bold text-white"
                                       >
-                                          <Plus size={14} />
+                                          <ReplaceAll size={12} /> Replace All
                                       </button>
+                                  </div>
+                                  {findResult.error ? (
+                                      <p className="text-[10px] text-red-400">{findResult.error}</p>
+                                  ) : findOptions.query && (
+                                      <p className="text-[10px] text-gray-500">
+                                          {findResult.matches.length} match{findResult.matches.length === 1 ? '' : 'es'} in {new Set(findGroups.map(g => g.lineIndex)).size} line(s)
+                                      </p>
+                                  )}
+                                  {findGroups.length > 0 && (
+                                      <div className="max-h-64 overflow-y-auto space-y-1">
+                                          {findGroups.map(group => {
+                                              const line = lines[group.lineIndex];
+                                              const text = group.track === null ? line.text : line.translations?.[group.track] ?? '';
+                                              return (
+                                                  <div key={`${group.lineIndex}:${group.track ?? ''}`} className="flex items-center gap-2 p-1.5 bg-gray-950/60 rounded border border-gray-800">
+                                                      <button 
+                                                         onClick={() => jumpToLine(group.lineIndex)}
+                                                         className="font-mono text-gray-500 hover:text-white w-10 text-left"
+                                                         title="Jump to line"
+                                                      >
+                                                          #{group.lineIndex + 1}
+                                                      </button>
+                                                      {group.track !== null && (
+                                                          <span className="text-[9px] px-1 bg-cyan-900/30 rounded text-cyan-400/80">{group.track}</span>
+                                                      )}
+                                                      <span className="flex-1 min-w-0 text-gray-300">
+                                                          <MatchPreview text={text} matches={group.matches} />
+                                                      </span>
+                                                      <button 
+                                                         onClick={() => replaceGroup(group.matches)}
+                                                         className="p-1 text-gray-500 hover:text-green-400"
+                                                         title="Replace in this line"
+                                                      >
+                                                          <Replace size={12} />
+                                                      </button>
+                                                  </div>
+                                              );
+                                          })}
+                                      </div>
+                                  )}
+                              </div>
+                          )}
+
+                          {mode === 'edit' && selection.length > 0 && (
+                              <div className="sticky top-0 z-10 mb-4 p-3 bg-gray-950/95 backdrop-blur border border-blue-800/50 rounded-lg shadow-xl space-y-2 text-xs">
+                                  <div className="flex items-center justify-between">
+                                      <span className="text-blue-300 font-semibold">{selection.length} line{selection.length > 1 ? 's' : ''} selected</span>
+                                      <span className="text-[10px] text-gray-500">
+                                          <kbd className="font-sans bg-gray-800 px-1 rounded border border-gray-700">,</kbd> / <kbd className="font-sans bg-gray-800 px-1 rounded border border-gray-700">.</kbd> nudge 10ms, with Shift 100ms
+                                      </span>
+                                      <button onClick={() => setSelection([])} className="text-gray-500 hover:text-white">Clear</button>
+                                  </div>
+                                  <div className="flex items-center gap-2 flex-wrap">
+                                      <span className="text-gray-400 w-12">Nudge</span>
+                                      {[-0.1, -0.01, 0.01, 0.1].map(delta => (
+                                          <button 
+                                             key={delta}
+                                             onClick={() => nudgeSelection(delta)}
+                                             className="px-2 py-0.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded font-mono text-[10px] text-gray-300"
+                                          >
+                                              {delta > 0 ? '+' : '−'}{Math.round(Math.abs(delta) * 1000)}ms
+                                          </button>
+                                      ))}
+                                      <span className="text-gray-400 ml-2">Shift by</span>
+                                      <input 
+                                         type="number" 
+                                         step="0.1" 
+                                         value={shiftAmount}
+                                         onChange={(e) => setShiftAmount(Number(e.target.value))}
+                                         className="w-20 bg-black/40 border border-gray-700 rounded px-2 py-0.5 font-mono text-center outline-none focus:border-blue-500"
+                                         title="Seconds (negative = earlier)"
+                                      />
                                       <button 
-                                        onClick={() => {
-                                            const newLines = lines.filter((_, i) => i !== idx);
-                                            setLines(newLines);
-                                        }}
-                                        className="p-1.5 hover:bg-red-900/50 rounded text-gray-400 hover:text-red-400 transition"
-                                        title="Delete line"
+                                         onClick={applyShift}
+                                         disabled={!shiftAmount}
+                                         className="px-2 py-0.5 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 rounded text-[10px] font-bold text-white"
                                       >
-                                          <Trash2 size={14} />
+                                          Shift
                                       </button>
                                   </div>
-                              )}
-                          </div>
-                      ))}
+                                  {selection.length > 1 && (
+                                      <div className="flex items-center gap-2 flex-wrap">
+                                          <span className="text-gray-400 w-12">Stretch</span>
+                                          <span className="text-gray-500">#{selection[0] + 1} →</span>
+                                          <input 
+                                             type="number" 
+                                             step="0.1" 
+                                             value={Number(stretchTargets.first.toFixed(3))}
+                                             onChange={(e) => setStretchTargets({ ...stretchTargets, first: Math.max(0, Number(e.target.value)) })}
+                                             className="w-20 bg-black/40 border border-gray-700 rounded px-2 py-0.5 font-mono text-center outline-none focus:border-blue-500"
+                                             title="New start of the first selected line (seconds)"
+                                          />
+                                          <span className="text-gray-500">#{selection[selection.length - 1] + 1} →</span>
+                                          <input 
+                                             type="number" 
+                                             step="0.1" 
+                                             value={Number(stretchTargets.last.toFixed(3))}
+                                             onChange={(e) => setStretchTargets({ ...stretchTargets, last: Math.max(0, Number(e.target.value)) })}
+                                             className="w-20 bg-black/40 border border-gray-700 rounded px-2 py-0.5 font-mono text-center outline-none focus:border-blue-500"
+                                             title="New start of the last selected line (seconds)"
+                                          />
+                                          <button 
+                                             onClick={applyStretch}
+                                             className="px-2 py-0.5 bg-blue-600 hover:bg-blue-500 rounded text-[10px] font-bold text-white"
+                                          >
+                                              Stretch
+                                          </button>
+                                      </div>
+                                  )}
+                              </div>
+                          )}
 
-                      {mode === 'edit' && (
-                          <button 
-                             onClick={() => setLines([...lines, {time: (lines[lines.length-1]?.time || 0) + 2, text: ''}])}
-                             className="w-full py-3 mt-4 border border-dashed border-gray-700 text-gray-500 rounded-lg hover:bg-gray-900 hover:text-gray-300 text-sm flex items-center justify-center gap-2 transition"
-                          >
-                              <Plus size={16} /> Add Line at End
-                          </button>
-                      )}
-                   </div>
-               )}
+                          {mode === 'edit' && pendingTranslations.length > 0 && (
+                              <div className="mb-4 p-3 bg-amber-900/10 border border-amber-700/40 rounded-lg space-y-2">
+                                  <div className="text-xs text-amber-300 font-semibold uppercase tracking-wider flex items-center gap-2">
+                                      <AlertTriangle size={12} /> Translation Review ({pendingTranslations.length})
+                                  </div>
+                                  <p className="text-[10px] text-gray-500">These translated lines could not be matched by time. Pick the original line for each, or discard it.</p>
+                                  {pendingTranslations.map(item => {
+                                      const nearest = getNearestLineIndexes(item.time);
+                                      const others = lines.map((_, index) => index).filter(index => lines[index].text.trim() !== '' && !nearest.includes(index));
+                                      return (
+                                          <div key={item.id} className="flex items-center gap-2 p-2 bg-gray-900/60 rounded border border-gray-800 text-xs">
+                                              <span className="font-mono text-amber-300/80 w-12">{formatTime(item.time)}</span>
+                                              <span className="flex-1 min-w-0 truncate text-gray-200" title={item.text}>{item.text}</span>
+                                              <span className="text-[9px] px-1 bg-gray-800 rounded text-gray-400">{item.track} · {item.reason}</span>
+                                              <select 
+                                                 value={pendingTargets[item.id] ?? nearest[0] ?? ''}
+                                                 onChange={(e) => setPendingTargets(prev => ({ ...prev, [item.id]: Number(e.target.value) }))}
+                                                 className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-[10px] text-gray-300 max-w-[180px] outline-none"
+                                              >
+                                                  <optgroup label="Nearest">
+                                                      {nearest.map(index => (
+                                                          <option key={index} value={index}>{formatTime(lines[index].time)} {lines[index].text}</option>
+                                                      ))}
+                                                  </optgroup>
+                                                  {others.length > 0 && (
+                                                      <optgroup label="All lines">
+                                                          {others.map(index => (
+                                                              <option key={index} value={index}>{formatTime(lines[index].time)} {lines[index].text}</option>
+                                                          ))}
+                                                      </optgroup>
+                                                  )}
+                                              </select>
+                                              <button 
+                                                 onClick={() => assignPendingTranslation(item)}
+                                                 disabled={nearest.length === 0}
+                                                 className="px-2 py-0.5 bg-amber-600 hover:bg-amber-500 disabled:bg-gray-700 rounded text-[10px] font-bold text-white"
+                                              >
+                                                  Assign
+                                              </button>
+                                              <button onClick={() => discardPendingTranslation(item.id)} className="p-1 text-gray-500 hover:text-red-400" title="Discard">
+                                                  <Trash2 size={12} />
+                                              </button>
+                                          </div>
+                                      );
+                                  })}
+                              </div>
+                          )}
+
+                          {mode === 'edit' && lintIssues.length > 0 && (
+                              <div className="mb-4 p-3 bg-yellow-900/10 border border-yellow-700/40 rounded-lg space-y-2">
+                                  <button 
+                                     onClick={() => setShowLint(!showLint)}
+                                     className="w-full text-xs text-yellow-300 font-semibold uppercase tracking-wider flex items-center gap-2"
+                                  >
+                                      {showLint ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                                      <AlertTriangle size={12} /> Readability Warnings ({lintIssues.length})
+                                  </button>
+                                  {showLint && lintIssues.map((issue, i) => (
+                                      <div key={`${issue.lineIndex}-${issue.type}-${i}`} className="flex items-center gap-2 p-2 bg-gray-900/60 rounded border border-gray-800 text-xs">
+                                          <span className="font-mono text-yellow-300/80 w-12">#{issue.lineIndex + 1}</span>
+                                          <span className="flex-1 min-w-0 truncate text-gray-300" title={lines[issue.lineIndex]?.text}>{issue.message}</span>
+                                          <button 
+                                             onClick={() => jumpToLine(issue.lineIndex)}
+                                             className="p-1 text-gray-500 hover:text-white"
+                                             title="Jump to line"
+                                          >
+                                              <Crosshair size={12} />
+                                          </button>
+                                          {issue.fix && (
+                                              <button 
+                                                 onClick={() => applyLintFix(issue)}
+                                                 className="flex items-center gap-1 px-2 py-0.5 bg-yellow-600 hover:bg-yellow-500 rounded text-[10px] font-bold text-white"
+                                              >
+                                                  {issue.fix === 'split' ? <><Scissors size={10} /> Split</> : <><ArrowRight size={10} /> Extend</>}
+                                              </button>
+                                          )}
+                                      </div>
+                                  ))}
+                              </div>
+                          )}
+
+                          {mode === 'edit' && (
+                              <div className="flex items-center gap-3 px-2 pb-2 text-[10px] text-gray-500 uppercase tracking-wider border-b border-gray-800 mb-2">
+                                  <input 
+                                     type="checkbox" 
+                                     checked={selection.length === lines.length}
+                                     onChange={(e) => setSelection(e.target.checked ? lines.map((_, i) => i) : [])}
+                                     className="rounded border-gray-600 bg-gray-700 text-blue-600"
+                                     title="Select all lines"
+                                  />
+                                  <div className="min-w-[80px] text-center">Time</div>
+                                  <div className="flex-1 min-w-0">Original</div>
+                                  {trackNames.map(name => (
+                                      <div key={name} className="flex-1 min-w-0 flex items-center gap-1 text-cyan-400/70">
+                                          <span className="truncate" title={name}>{name}</span>
+                                          <button onClick={() => removeTranslationTrack(name)} className="text-gray-600 hover:text-red-400" title="Remove track">
+                                              <X size={10} />
+                                          </button>
+                                      </div>
+                                  ))}
+                                  <button onClick={addTranslationTrack} className="flex items-center gap-1 text-gray-500 hover:text-cyan-300 normal-case" title="Add translation track">
+                                      <Plus size={12} /> Track
+                                  </button>
+                              </div>
+                          )}
+
+                          {lines.map((line, idx) => (
+                              <div 
+                                 key={idx}
+                                 data-line-index={idx}
+                                 className={`group flex items-center gap-3 p-2 rounded-lg border transition-all duration-200 ${
+                                     idx === activeIndex 
+                                     ? 'bg-blue-900/20 border-blue-500/50 shadow-md shadow-blue-900/10' 
+                                     : 'bg-gray-900/50 border-gray-800 hover:border-gray-700 hover:bg-gray-800'
+                                 } ${syncRange && (idx < syncRange.start || idx > syncRange.end) ? 'opacity-40' : ''} ${holdStart?.index === idx ? 'ring-2 ring-emerald-500' : ''}`}
+                              >
+                                  {mode === 'edit' && (
+                                      <input 
+                                         type="checkbox" 
+                                         checked={selection.includes(idx)}
+                                         onClick={(e) => toggleSelection(idx, e.shiftKey)}
+                                         readOnly
+                                         className="rounded border-gray-600 bg-gray-700 text-blue-600"
+                                         title="Select (Shift+click for a range)"
+                                      />
+                                  )}
+
+                                  {/* Time Input/Display */}
+                                  <div className="flex flex-col items-center min-w-[80px]">
+                                      {mode === 'edit' ? (
+                                          <>
+                                              <input 
+                                                 type="number" 
+                                                 step="0.1" 
+                                                 value={line.time === 0 ? 0 : Number(line.time).toFixed(2)}
+                                                 onChange={(e) => updateLineTime(idx, parseFloat(e.target.value))}
+                                                 className={`w-20 bg-black/40 border rounded px-2 py-1 text-xs font-mono text-center outline-none focus:border-blue-500 transition ${line.time === 0 ? 'border-red-900/50 text-gray-500' : 'border-gray-700 text-blue-300'}`}
+                                                 title="Timestamp (seconds)"
+                                              />
+                                              <input 
+                                                 type="number" 
+                                                 step="0.1" 
+                                                 value={line.endTime === undefined ? '' : Number(line.endTime).toFixed(2)}
+                                                 onChange={(e) => updateLineEnd(idx, e.target.value)}
+                                                 placeholder="end"
+                                                 className={`w-20 mt-1 bg-black/40 border rounded px-2 py-0.5 text-[10px] font-mono text-center outline-none focus:border-blue-500 transition placeholder-gray-700 ${line.endTime !== undefined && line.endTime <= line.time ? 'border-red-900/50 text-red-400' : 'border-gray-800 text-gray-400'}`}
+                                                 title="End time (seconds). Leave empty to end at the next line."
+                                              />
+                                          </>
+                                      ) : (
+                                          <>
+                                              <span className={`font-mono text-sm ${line.time > 0 ? 'text-blue-300' : 'text-gray-600'}`}>
+                                                  {formatTime(line.time)}
+                                              </span>
+                                              {line.endTime !== undefined && (
+                                                  <span className="font-mono text-[10px] text-gray-500">→ {formatTime(line.endTime)}</span>
+                                              )}
+                                          </>
+                                      )}
+                                      <DurationBar lines={lines} index={idx} />
+                                  </div>
+
+                                  {/* Text Input/Display */}
+                                  <div className="flex-1 min-w-0">
+                                      {mode === 'edit' ? (
+                                          <>
+                                              {/* A textarea, so rows of multi-line subtitle cues survive editing */}
+                                              <textarea 
+                                                 value={line.text}
+                                                 onChange={(e) => updateLineText(idx, e.target.value)}
+                                                 rows={line.text.split('\n').length}
+                                                 className="w-full bg-transparent border-none text-gray-200 focus:ring-0 p-1 text-base rounded resize-none hover:bg-white/5 transition focus:bg-white/5 placeholder-gray-700"
+                                                 placeholder="(Empty line)"
+                                                 title="Add readings as 漢字{かんじ}; |base{reading} marks a longer base. Enter starts a new row, as in multi-line captions."
+                                              />
+                                              {hasRuby(line.text) && (
+                                                  <div className="px-1 pb-1 text-sm text-gray-400 leading-loose">
+                                                      <RubyText text={line.text} />
+                                                  </div>
+                                              )}
+                                              {line.words && line.words.length > 0 && (
+                                                  <div className="flex flex-wrap gap-1 px-1 pb-1">
+                                                      {line.words.map((word, wi) => (
+                                                          <button 
+                                                             key={wi}
+                                                             onClick={() => seekTo(word.time)}
+                                                             className="text-[10px] px-1 rounded bg-purple-900/20 border border-purple-800/40 text-purple-200/80 hover:text-white"
+                                                             title="Play from this word"
+                                                          >
+                                                              {stripRuby(word.text).trim()} <span className="font-mono text-gray-500">{word.time.toFixed(2)}</span>
+                                                          </button>
+                                                      ))}
+                                                  </div>
+                                              )}
+                                              {lintByLine.has(idx) && (
+                                                  <div className="flex items-center gap-1 px-1 text-[10px] text-yellow-500/80 truncate" title={lintByLine.get(idx)!.map(i => i.message).join('\n')}>
+                                                      <AlertTriangle size={10} className="flex-shrink-0" /> {lintByLine.get(idx)![0].message}
+                                                  </div>
+                                              )}
+                                          </>
+                                      ) : (
+                                          <div 
+                                            className={`text-lg cursor-pointer truncate px-2 py-1 rounded hover:bg-white/5 transition ${idx === activeIndex ? 'text-white font-bold' : 'text-gray-400'}`}
+                                            onDoubleClick={() => seekTo(line.time)}
+                                            title="Double click to jump to time"
+                                          >
+                                              {mode === 'word-sync' && idx === activeIndex && line.text ? (
+                                                  getLineWords(line).map((word, wi) => (
+                                                      <span 
+                                                         key={wi}
+                                                         className={`whitespace-pre rounded ${wi === wordIndex ? 'bg-purple-500 text-white' : wi < wordIndex ? 'text-purple-300' : 'text-gray-500'}`}
+                                                      >
+                                                          <RubyText text={word} />
+                                                      </span>
+                                                  ))
+                                              ) : (
+                                                  line.text ? <RubyText text={line.text} /> : <span className="text-gray-700 italic text-sm">Empty Line</span>
+                                              )}
+                                              {trackNames.map(name => line.translations?.[name] && (
+                                                  <div key={name} className="text-xs font-normal text-gray-500 truncate">{line.translations[name]}</div>
+                                              ))}
+                                          </div>
+                                      )}
+                                  </div>
+
+                                  {/* Translation Columns (Edit Mode Only) */}
+                                  {mode === 'edit' && trackNames.map(name => (
+                                      <div key={name} className="flex-1 min-w-0">
+                                          <input 
+                                             type="text" 
+                                             value={line.translations?.[name] ?? ''}
+                                             onChange={(e) => updateLineTranslation(idx, name, e.target.value)}
+                                             className="w-full bg-transparent border-none text-cyan-200/80 focus:ring-0 p-1 text-sm rounded hover:bg-white/5 transition focus:bg-white/5 placeholder-gray-800"
+                                             placeholder={name}
+                                          />
+                                      </div>
+                                  ))}
+
+                                  {/* Action Buttons (Edit Mode Only) */}
+                                  {mode === 'edit' && (
+                                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                          <button 
+                                              onClick={() => seekTo(line.time)}
+                                              className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition"
+                                              title="Play from this timestamp"
+                                          >
+                                              <Play size={14} />
+                                          </button>
+                                          <button 
+                                              onClick={() => startSyncRange(idx, lines.length - 1)}
+                                              className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-blue-400 transition"
+                                              title="Re-sync from this line"
+                                          >
+                                              <ListRestart size={14} />
+                                          </button>
+                                          <button 
+                                              onClick={() => insertLineAfter(idx)}
+                                              className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-green-400 transition"
+                                              title="Insert line below"
+                                          >
+                                              <Plus size={14} />
+                                          </button>
+                                          <button 
+                                            onClick={() => {
+                                                const newLines = lines.filter((_, i) => i !== idx);
+                                                setLines(newLines, { label: 'Delete line', mergeKey: null });
+                                            }}
+                                            className="p-1.5 hover:bg-red-900/50 rounded text-gray-400 hover:text-red-400 transition"
+                                            title="Delete line"
+                                          >
+                                              <Trash2 size={14} />
+                                          </button>
+                                      </div>
+                                  )}
+                              </div>
+                          ))}
+
+                          {mode === 'edit' && (
+                              <button 
+                                 onClick={() => setLines([...lines, {time: (lines[lines.length-1]?.time || 0) + 2, text: ''}], { label: 'Add line', mergeKey: null })}
+                                 className="w-full py-3 mt-4 border border-dashed border-gray-700 text-gray-500 rounded-lg hover:bg-gray-900 hover:text-gray-300 text-sm flex items-center justify-center gap-2 transition"
+                              >
+                                  <Plus size={16} /> Add Line at End
+                              </button>
+                          )}
+                       </div>
+                   )}
+                </div>
             </div>
         </div>
       </div>
+
+      <TranslationMemoryManager 
+         isOpen={showTranslationMemory}
+         onClose={() => setShowTranslationMemory(false)}
+      />
     </div>
   );
 };
@@ -1,6 +1,7 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { TitleConfig, TitleLayoutMode } from '../types';
+import { EditHistory, useHistoryState } from '../utils/history';
 import { X, Clock, LayoutTemplate } from 'lucide-react';
 
 interface TitleEditorProps {
@@ -8,17 +9,23 @@ interface TitleEditorProps {
   onClose: () => void;
   config: TitleConfig;
   onSave: (config: TitleConfig) => void;
+  history: EditHistory;
 }
 
-export const TitleEditor: React.FC<TitleEditorProps> = ({ isOpen, onClose, config, onSave }) => {
-  const [localConfig, setLocalConfig] = useState<TitleConfig>(config);
+export const TitleEditor: React.FC<TitleEditorProps> = ({ isOpen, onClose, config, onSave, history }) => {
+  const [localConfig, setLocalConfig, resetLocalConfig] = useHistoryState<TitleConfig>(history, 'Title edit', config);
 
   useEffect(() => {
     if (isOpen) {
-      setLocalConfig(config);
+      resetLocalConfig(config);
     }
   }, [isOpen, config]);
 
+  useEffect(() => {
+    if (isOpen) history.openScope('title-editor');
+    else history.closeScope();
+  }, [isOpen, history]);
+
   if (!isOpen) return null;
 
   return (
@@ -185,7 +192,7 @@ export const TitleEditor: React.FC<TitleEditorProps> = ({ isOpen, onClose, confi
         <div className="p-4 border-t border-gray-800 bg-gray-800/50 flex justify-end gap-2 flex-shrink-0">
            <button onClick={onClose} className="px-4 py-2 text-sm text-gray-400 hover:text-white transition">Cancel</button>
            <button 
-             onClick={() => { onSave(localConfig); onClose(); }}
+             onClick={() => { history.closeScope(); onSave(localConfig); onClose(); }}
              className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium shadow-lg shadow-blue-900/20"
            >
              Apply Settings
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { TranslationMemoryEntry } from '../types';
+import { getTranslationMemory, saveToTranslationMemory, deleteFromTranslationMemory } from '../utils/db';
+import { TRANSLATION_PROVIDERS, TranslationProviderId } from '../utils/translation';
+import { X, Search, Trash2, Loader2, Database } from 'lucide-react';
+
+interface TranslationMemoryManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const providerLabel = (provider: string) => TRANSLATION_PROVIDERS[provider as TranslationProviderId]?.label ?? provider;
+
+export const TranslationMemoryManager: React.FC<TranslationMemoryManagerProps> = ({ isOpen, onClose }) => {
+  const [entries, setEntries] = useState<TranslationMemoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [pair, setPair] = useState(''); // "target|provider" filter, '' = all
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await getTranslationMemory());
+    } catch (e) {
+      console.error("Failed to read translation memory", e);
+      alert("Could not read the translation memory.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadEntries();
+  }, [isOpen]);
+
+  const pairs = useMemo(() => Array.from(new Set(entries.map(e => `${e.targetLang}|${e.provider}`))).sort(), [entries]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return entries.filter(e =>
+      (!pair || `${e.targetLang}|${e.provider}` === pair)
+      && (!q || e.sourceText.toLowerCase().includes(q) || e.translation.toLowerCase().includes(q))
+    );
+  }, [entries, query, pair]);
+
+  // Written back when the field loses focus, not on every key
+  const saveEntry = async (entry: TranslationMemoryEntry, translation: string) => {
+    if (translation === entry.translation) return;
+    try {
+      await saveToTranslationMemory([{ ...entry, translation }]);
+      setEntries(prev => prev.map(e => e.id === entry.id ? { ...e, translation, updatedAt: Date.now() } : e));
+    } catch (e) {
+      console.error("Failed to update translation memory", e);
+      alert("Could not save the change.");
+    }
+  };
+
+  const purge = async (ids?: string[]) => {
+    const count = ids ? ids.length : entries.length;
+    if (count === 0 || !confirm(`Delete ${count} cached translation(s)? They will be sent to the model again next time.`)) return;
+    try {
+      await deleteFromTranslationMemory(ids);
+      await loadEntries();
+    } catch (e) {
+      console.error("Failed to purge translation memory", e);
+      alert("Could not delete the cached translations.");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isFiltered = visible.length !== entries.length;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-[60] flex items-center justify-center p-6 backdrop-blur-sm">
+      <div className="bg-gray-900 w-full max-w-4xl h-[80vh] rounded-xl border border-gray-700 shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800 bg-gray-800/50">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Database size={18} className="text-blue-400" /> Translation Memory
+            <span className="text-xs font-normal text-gray-500">{entries.length} entries</span>
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 p-3 border-b border-gray-800 text-xs">
+          <div className="flex-1 flex items-center gap-1 bg-black/40 border border-gray-700 rounded px-2 focus-within:border-blue-500">
+            <Search size={12} className="text-gray-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search source or translation"
+              className="flex-1 bg-transparent py-1 outline-none text-gray-200"
+            />
+          </div>
+          <select
+            value={pair}
+            onChange={(e) => setPair(e.target.value)}
+            className="bg-black/40 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none"
+          >
+            <option value="">All languages</option>
+            {pairs.map(p => {
+              const [target, provider] = p.split('|');
+              return <option key={p} value={p}>{target} · {providerLabel(provider)}</option>;
+            })}
+          </select>
+          <button
+            onClick={() => purge(isFiltered ? visible.map(e => e.id) : undefined)}
+            disabled={visible.length === 0}
+            className="px-3 py-1 border border-red-900/50 text-red-400 rounded hover:bg-red-900/10 disabled:opacity-30 flex items-center gap-1"
+          >
+            <Trash2 size={12} /> {isFiltered ? `Purge ${visible.length} Shown` : 'Purge All'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {isLoading ? (
+            <div className="h-full flex items-center justify-center text-gray-500">
+              <Loader2 size={24} className="animate-spin" />
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-sm text-gray-500">
+              {entries.length === 0 ? 'Nothing cached yet. Translations are remembered after "Create Bilingual".' : 'No entries match.'}
+            </div>
+          ) : visible.map(entry => (
+            <div key={entry.id} className="group flex items-start gap-3 p-2 rounded-lg border border-gray-800 bg-gray-900/50 hover:border-gray-700">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-200 whitespace-pre-wrap">{entry.sourceText}</div>
+                <div className="text-[10px] text-gray-500">
+                  {entry.sourceLang} → {entry.targetLang} · {providerLabel(entry.provider)}{entry.model && ` · ${entry.model}`} · {new Date(entry.updatedAt).toLocaleDateString()}
+                </div>
+              </div>
+              <input
+                type="text"
+                defaultValue={entry.translation}
+                onBlur={(e) => saveEntry(entry, e.target.value)}
+                className="flex-1 min-w-0 bg-transparent border border-transparent text-sm text-cyan-200/80 p-1 rounded hover:bg-white/5 focus:bg-white/5 focus:border-blue-500 outline-none"
+              />
+              <button
+                onClick={() => purge([entry.id])}
+                className="p-1.5 rounded text-gray-500 hover:text-red-400 hover:bg-red-900/30 opacity-0 group-hover:opacity-100 transition"
+                title="Delete entry"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
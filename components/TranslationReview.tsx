@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { LrcLine } from '../types';
+import { formatTime } from '../utils';
+import { Check, X, RefreshCw, Play, Loader2 } from 'lucide-react';
+
+interface TranslationReviewProps {
+  lines: LrcLine[];
+  track: string;
+  trackNames: string[];
+  onTrackChange: (track: string) => void;
+  drafts: Record<number, string>; // Regenerated translations by line index, not applied yet
+  selection: number[];
+  onToggleSelection: (index: number, extend: boolean) => void;
+  onSelectAll: (selected: boolean) => void;
+  onEdit: (index: number, text: string) => void;
+  onAccept: (indexes: number[]) => void;
+  onDiscard: (indexes: number[]) => void;
+  onRegenerate: (indexes: number[], instructions: string) => void;
+  onSeek: (time: number) => void;
+  isBusy: boolean; // A translation request is running
+}
+
+// Original and translation side by side; regenerated lines wait here until accepted
+export const TranslationReview: React.FC<TranslationReviewProps> = ({
+  lines,
+  track,
+  trackNames,
+  onTrackChange,
+  drafts,
+  selection,
+  onToggleSelection,
+  onSelectAll,
+  onEdit,
+  onAccept,
+  onDiscard,
+  onRegenerate,
+  onSeek,
+  isBusy,
+}) => {
+  const [instructions, setInstructions] = useState('');
+  const draftIndexes = Object.keys(drafts).map(Number).sort((a, b) => a - b);
+  const missingCount = lines.filter(line => line.text.trim() && !line.translations?.[track]?.trim()).length;
+
+  return (
+    <div className="p-4 pb-32 space-y-1">
+      <div className="sticky top-0 z-10 mb-4 p-3 bg-gray-900/95 backdrop-blur border border-gray-700 rounded-lg space-y-2 text-xs">
+        <div className="flex items-center gap-3">
+          <label className="text-gray-400">Track</label>
+          <select
+            value={track}
+            onChange={(e) => onTrackChange(e.target.value)}
+            className="bg-black/40 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none"
+          >
+            {trackNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <span className="text-gray-500">{missingCount > 0 ? `${missingCount} line(s) without translation` : 'Every line is translated'}</span>
+          {draftIndexes.length > 0 && (
+            <div className="ml-auto flex items-center gap-2">
+              <span className="text-amber-300">{draftIndexes.length} to review</span>
+              <button onClick={() => onAccept(draftIndexes)} className="px-2 py-1 bg-green-700 hover:bg-green-600 text-white rounded flex items-center gap-1">
+                <Check size={12} /> Accept All
+              </button>
+              <button onClick={() => onDiscard(draftIndexes)} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded flex items-center gap-1">
+                <X size={12} /> Discard All
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="Extra instructions for regenerating, e.g. more casual, keep the rhyme"
+            className="flex-1 bg-black/40 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={() => onRegenerate(selection, instructions)}
+            disabled={isBusy || selection.length === 0}
+            className="px-3 py-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-400 text-white rounded flex items-center gap-1"
+            title="Translate the selected lines again; the results wait here for review"
+          >
+            {isBusy ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Regenerate Selected ({selection.length})
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 px-2 pb-2 text-[10px] text-gray-500 uppercase tracking-wider border-b border-gray-800 mb-2">
+        <input
+          type="checkbox"
+          checked={lines.length > 0 && selection.length === lines.length}
+          onChange={(e) => onSelectAll(e.target.checked)}
+          className="rounded border-gray-600 bg-gray-700 text-blue-600"
+          title="Select all lines"
+        />
+        <div className="min-w-[64px]">Time</div>
+        <div className="flex-1 min-w-0">Original</div>
+        <div className="flex-1 min-w-0 text-cyan-400/70">{track}</div>
+        <div className="w-16" />
+      </div>
+
+      {lines.map((line, idx) => {
+        const draft = drafts[idx];
+        const translation = line.translations?.[track] ?? '';
+        const isMissing = !!line.text.trim() && !translation.trim();
+        return (
+          <div
+            key={idx}
+            className={`group flex items-start gap-3 p-2 rounded-lg border transition ${
+              draft !== undefined ? 'bg-amber-900/10 border-amber-600/40'
+              : isMissing ? 'bg-gray-900/50 border-red-900/50'
+              : 'bg-gray-900/50 border-gray-800 hover:border-gray-700'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={selection.includes(idx)}
+              onClick={(e) => onToggleSelection(idx, e.shiftKey)}
+              readOnly
+              className="mt-1.5 rounded border-gray-600 bg-gray-700 text-blue-600"
+              title="Select (Shift+click for a range)"
+            />
+            <button onClick={() => onSeek(line.time)} className="min-w-[64px] mt-1 flex items-center gap-1 font-mono text-xs text-gray-500 hover:text-white" title="Play from this line">
+              <Play size={10} /> {formatTime(line.time)}
+            </button>
+            <div className="flex-1 min-w-0 p-1 text-sm text-gray-200 whitespace-pre-wrap">{line.text}</div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <textarea
+                value={translation}
+                onChange={(e) => onEdit(idx, e.target.value)}
+                rows={Math.max(1, translation.split('\n').length)}
+                placeholder={isMissing ? 'Missing translation' : ''}
+                className={`w-full bg-transparent border-none text-sm p-1 rounded resize-none hover:bg-white/5 focus:bg-white/5 focus:ring-0 placeholder-red-400/50 ${draft !== undefined ? 'text-gray-500 line-through' : 'text-cyan-200/80'}`}
+              />
+              {draft !== undefined && (
+                <div className="flex items-start gap-1 p-1 rounded bg-amber-500/10 text-sm text-amber-100">
+                  <span className="flex-1 whitespace-pre-wrap">{draft}</span>
+                  <button onClick={() => onAccept([idx])} className="p-1 text-green-400 hover:text-green-300" title="Accept">
+                    <Check size={14} />
+                  </button>
+                  <button onClick={() => onDiscard([idx])} className="p-1 text-gray-400 hover:text-red-400" title="Discard">
+                    <X size={14} />
+                  </button>
+                </div>
+              )}
+            </div>
+            <div className="w-16 flex justify-end opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => onRegenerate([idx], instructions)}
+                disabled={isBusy || !line.text.trim()}
+                className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-blue-400 disabled:opacity-30 transition"
+                title="Regenerate this line"
+              >
+                <RefreshCw size={14} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { TranslationSettings, TranslationProviderId, TRANSLATION_PROVIDERS } from '../utils/translation';
+
+interface TranslationSettingsPanelProps {
+  settings: TranslationSettings;
+  onChange: (settings: TranslationSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 outline-none focus:border-blue-500 disabled:opacity-50";
+
+export const TranslationSettingsPanel: React.FC<TranslationSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const update = (patch: Partial<TranslationSettings>) => onChange({ ...settings, ...patch });
+
+  // A model name only makes sense for the provider it was typed for
+  const changeProvider = (provider: TranslationProviderId) => {
+    update({ provider, model: TRANSLATION_PROVIDERS[provider].defaultModel });
+  };
+
+  return (
+    <div className="space-y-2 p-2 bg-gray-900/60 rounded border border-gray-700/50">
+      <div>
+        <label className="text-[10px] text-gray-400 block mb-1">Provider</label>
+        <select
+          value={settings.provider}
+          onChange={(e) => changeProvider(e.target.value as TranslationProviderId)}
+          className={inputClass}
+          disabled={disabled}
+        >
+          {(Object.keys(TRANSLATION_PROVIDERS) as TranslationProviderId[]).map(id => (
+            <option key={id} value={id}>{TRANSLATION_PROVIDERS[id].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings.provider !== 'mock' && (
+        <div>
+          <label className="text-[10px] text-gray-400 block mb-1">Model</label>
+          <input
+            type="text"
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            placeholder={TRANSLATION_PROVIDERS[settings.provider].defaultModel}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {settings.provider === 'openai' && (
+        <div>
+          <label className="text-[10px] text-gray-400 block mb-1">Endpoint</label>
+          <input
+            type="url"
+            value={settings.endpoint}
+            onChange={(e) => update({ endpoint: e.target.value })}
+            placeholder="http://localhost:8080/v1"
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {settings.provider !== 'mock' && (
+        <div>
+          <label className="text-[10px] text-gray-400 block mb-1">API Key {settings.provider === 'openai' ? '(if required)' : '(optional)'}</label>
+          <input
+            type="password"
+            value={settings.apiKey}
+            onChange={(e) => update({ apiKey: e.target.value })}
+            placeholder={settings.provider === 'gemini' ? 'Uses the built-in key when empty' : ''}
+            className={inputClass}
+            disabled={disabled}
+            autoComplete="off"
+          />
+        </div>
+      )}
+
+      <p className="text-[9px] text-gray-500 leading-tight">Saved in this browser only.</p>
+    </div>
+  );
+};
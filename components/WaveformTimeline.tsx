@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LrcLine } from '../types';
+import { formatTime, getLineEndTime, stripRuby } from '../utils';
+import { WaveformData, getPeak } from '../utils/waveform';
+import { ZoomIn, ZoomOut, Loader2 } from 'lucide-react';
+
+interface WaveformTimelineProps {
+  waveform: WaveformData | null;
+  isLoading: boolean;
+  lines: LrcLine[];
+  currentTime: number;
+  activeIndex: number;
+  snapTimes?: number[]; // Onsets or beats that times snap to
+  onSeek: (time: number) => void;
+  onRetime: (index: number, time: number) => void;
+  onSelectLine: (index: number) => void;
+}
+
+const HEIGHT = 120;
+const RULER_HEIGHT = 16;
+const MIN_ZOOM = 5; // px per second
+const MAX_ZOOM = 800;
+const DEFAULT_ZOOM = 60;
+const MARKER_HIT_PX = 6;
+const TICK_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60];
+
+export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  waveform,
+  isLoading,
+  lines,
+  currentTime,
+  activeIndex,
+  snapTimes = [],
+  onSeek,
+  onRetime,
+  onSelectLine,
+}) => {
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pendingScrollRef = useRef<number | null>(null); // Scroll position to restore after a zoom
+
+  const lastLineTime = lines.reduce((acc, l) => Math.max(acc, l.endTime ?? l.time), 0);
+  const duration = Math.max(waveform?.duration ?? 0, lastLineTime + 5);
+  const totalWidth = Math.max(viewWidth, duration * zoom);
+
+  // Track the visible width
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewWidth(el.clientWidth));
+    observer.observe(el);
+    setViewWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Apply the scroll position computed for a new zoom level once the content has resized
+  useEffect(() => {
+    if (pendingScrollRef.current !== null && scrollRef.current) {
+      scrollRef.current.scrollLeft = pendingScrollRef.current;
+      pendingScrollRef.current = null;
+    }
+  }, [zoom]);
+
+  // Keep the playhead in view while playing
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || dragIndex !== null || viewWidth === 0) return;
+    const x = currentTime * zoom;
+    if (x < el.scrollLeft || x > el.scrollLeft + viewWidth) {
+      el.scrollLeft = Math.max(0, x - viewWidth * 0.25);
+    }
+  }, [currentTime]);
+
+  const zoomAround = (factor: number, anchorX: number) => {
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom * factor));
+    if (next === zoom) return;
+    const anchorTime = (scrollLeft + anchorX) / zoom;
+    pendingScrollRef.current = Math.max(0, anchorTime * next - anchorX);
+    setZoom(next);
+  };
+
+  // Ctrl/Cmd + wheel zooms around the cursor (needs a non-passive listener to stop page zoom)
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      zoomAround(e.deltaY < 0 ? 1.25 : 0.8, e.clientX - el.getBoundingClientRect().left);
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  });
+
+  // --- Drawing ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewWidth === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = viewWidth * dpr;
+    canvas.height = HEIGHT * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const startTime = scrollLeft / zoom;
+    const toX = (time: number) => time * zoom - scrollLeft;
+    const waveTop = RULER_HEIGHT;
+    const waveHeight = HEIGHT - RULER_HEIGHT;
+    const mid = waveTop + waveHeight / 2;
+
+    ctx.fillStyle = '#030712';
+    ctx.fillRect(0, 0, viewWidth, HEIGHT);
+
+    // Active line span
+    if (lines[activeIndex]) {
+      const x1 = toX(lines[activeIndex].time);
+      const x2 = toX(getLineEndTime(lines, activeIndex));
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.12)';
+      ctx.fillRect(x1, waveTop, x2 - x1, waveHeight);
+    }
+
+    // Waveform, one column per pixel
+    if (waveform) {
+      ctx.fillStyle = '#4b5563';
+      for (let x = 0; x < viewWidth; x++) {
+        const t = startTime + x / zoom;
+        if (t > waveform.duration) break;
+        const peak = getPeak(waveform, t, t + 1 / zoom);
+        const h = Math.max(1, peak * waveHeight * 0.95);
+        ctx.fillRect(x, mid - h / 2, 1, h);
+      }
+    }
+
+    // Snap points along the bottom edge
+    if (snapTimes.length > 0) {
+      const endTime = startTime + viewWidth / zoom;
+      ctx.fillStyle = 'rgba(34, 211, 238, 0.6)';
+      snapTimes.forEach(t => {
+        if (t < startTime || t > endTime) return;
+        ctx.fillRect(Math.round(toX(t)), HEIGHT - 6, 1, 6);
+      });
+    }
+
+    // Ruler
+    const step = TICK_STEPS.find(s => s * zoom >= 60) ?? 60;
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, viewWidth, RULER_HEIGHT);
+    ctx.strokeStyle = '#374151';
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '9px monospace';
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    for (let t = Math.floor(startTime / step) * step; toX(t) < viewWidth; t += step) {
+      const x = Math.round(toX(t)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, RULER_HEIGHT - 5);
+      ctx.lineTo(x, RULER_HEIGHT);
+      ctx.stroke();
+      ctx.fillText(step < 1 ? t.toFixed(2) : formatTime(t), x + 3, RULER_HEIGHT / 2);
+    }
+
+    // Line markers
+    lines.forEach((line, index) => {
+      const x = Math.round(toX(line.time)) + 0.5;
+      if (x < -200 || x > viewWidth + 1) return;
+      const isEmpty = line.text.trim() === '';
+      const isActive = index === activeIndex;
+      const isHot = index === dragIndex || index === hoverIndex;
+      const color = isHot ? '#ffffff' : isActive ? '#60a5fa' : isEmpty ? '#6b7280' : '#facc15';
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = isHot || isActive ? 2 : 1;
+      ctx.beginPath();
+      ctx.moveTo(x, waveTop);
+      ctx.lineTo(x, HEIGHT);
+      ctx.stroke();
+
+      // Label up to the next marker
+      const next = lines[index + 1];
+      const room = next ? toX(next.time) - x - 6 : 200;
+      if (room > 16) {
+        const label = `${index + 1} ${isEmpty ? '♪' : stripRuby(line.text)}`;
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(x + 2, waveTop, room, 14);
+        ctx.clip();
+        ctx.fillStyle = color;
+        ctx.font = '10px sans-serif';
+        ctx.fillText(label, x + 4, waveTop + 7);
+        ctx.restore();
+      }
+    });
+    ctx.lineWidth = 1;
+
+    // Playhead
+    const px = Math.round(toX(currentTime)) + 0.5;
+    ctx.strokeStyle = '#ef4444';
+    ctx.beginPath();
+    ctx.moveTo(px, 0);
+    ctx.lineTo(px, HEIGHT);
+    ctx.stroke();
+  }, [waveform, lines, currentTime, activeIndex, snapTimes, zoom, scrollLeft, viewWidth, dragIndex, hoverIndex]);
+
+  // --- Interaction ---
+  const timeAt = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, (e.clientX - rect.left + scrollLeft) / zoom);
+  };
+
+  const markerAt = (e: React.PointerEvent): number | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left + scrollLeft;
+    let best: number | null = null;
+    let bestDistance = MARKER_HIT_PX;
+    lines.forEach((line, index) => {
+      const distance = Math.abs(line.time * zoom - x);
+      if (distance <= bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const marker = markerAt(e);
+    if (marker !== null) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDragIndex(marker);
+      onSelectLine(marker);
+    } else {
+      onSeek(timeAt(e));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragIndex !== null) {
+      // Stay between the neighbouring markers so the line order never changes
+      const prev = lines[dragIndex - 1];
+      const next = lines[dragIndex + 1];
+      const min = prev ? prev.time : 0;
+      const max = next && next.time >= min ? next.time : Infinity;
+      onRetime(dragIndex, Math.min(max, Math.max(min, timeAt(e))));
+    } else {
+      setHoverIndex(markerAt(e));
+    }
+  };
+
+  const handlePointerUp = () => setDragIndex(null);
+
+  return (
+    <div className="border-b border-gray-800 bg-gray-900 flex-shrink-0">
+      <div className="flex items-center justify-between px-3 py-1 text-[10px] text-gray-500">
+        <span className="flex items-center gap-2">
+          {isLoading && <><Loader2 size={10} className="animate-spin" /> Decoding audio...</>}
+          {!isLoading && !waveform && 'Waveform unavailable'}
+          {!isLoading && waveform && 'Drag a marker to retime its line · click to seek · Ctrl+wheel to zoom'}
+        </span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoomAround(0.8, viewWidth / 2)} className="p-1 hover:text-white" title="Zoom out">
+            <ZoomOut size={12} />
+          </button>
+          <span className="font-mono w-14 text-center">{Math.round(zoom)}px/s</span>
+          <button onClick={() => zoomAround(1.25, viewWidth / 2)} className="p-1 hover:text-white" title="Zoom in">
+            <ZoomIn size={12} />
+          </button>
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        className="overflow-x-auto overflow-y-hidden"
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+      >
+        <div style={{ width: totalWidth, height: HEIGHT }}>
+          <canvas
+            ref={canvasRef}
+            className="sticky left-0 block"
+            style={{ width: viewWidth, height: HEIGHT, cursor: dragIndex !== null || hoverIndex !== null ? 'ew-resize' : 'pointer' }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerLeave={() => setHoverIndex(null)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
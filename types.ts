@@ -1,7 +1,76 @@
 
+// Word/syllable timing from enhanced LRC (<mm:ss.xx> inline tags)
+export interface LrcWord {
+  time: number; // in seconds, absolute
+  text: string; // Includes trailing whitespace so that joined words equal the line text
+  endTime?: number; // Only set when the source marks the end of the word explicitly
+}
+
 export interface LrcLine {
   time: number; // in seconds
+  text: string; // May contain '\n' for multi-line subtitle cues
+  endTime?: number; // in seconds, from formats that carry it (SRT/VTT)
+  words?: LrcWord[];
+  translations?: Record<string, string>; // Track name -> translated text
+}
+
+// A translation line that could not be matched to an original line on import
+export interface PendingTranslation {
+  id: string;
+  time: number; // Timestamp in the translation file
   text: string;
+  track: string;
+  reason: 'unmatched' | 'ambiguous';
+}
+
+// Display settings of one named translation track (keyed by LrcLine.translations)
+export interface TranslationTrack {
+  name: string;
+  fontSize: number;
+  color: string;
+  visible: boolean;
+}
+
+// Name or term that translations must keep untranslated or render one fixed way
+export interface GlossaryEntry {
+  term: string;
+  rendering: string; // Empty = keep the term as it is
+}
+
+// A cached translation of one line of text
+export interface TranslationMemoryEntry {
+  id: string; // Derived from provider, model, languages, glossary and source text
+  sourceText: string;
+  sourceLang: string;
+  targetLang: string;
+  provider: string;
+  model?: string; // Missing on entries saved before the model was part of the key
+  glossaryHash?: string; // Glossary entries whose term occurs in the source text, see getGlossaryHash
+  translation: string;
+  updatedAt: number;
+}
+
+// ID tags found in the header of an LRC file ([ti:], [ar:], ...)
+export interface LrcTags {
+  title?: string; // [ti:]
+  artist?: string; // [ar:]
+  album?: string; // [al:]
+  author?: string; // [au:] Lyrics author
+  by?: string; // [by:] Creator of the LRC file
+  length?: string; // [length:] e.g. 03:45
+}
+
+// Import problem found while parsing a lyric file
+export interface LrcDiagnostic {
+  type: 'skipped' | 'out_of_order' | 'duplicate_time' | 'past_duration' | 'ambiguous_time';
+  lineNumber: number; // 1-based line in the source file
+  message: string;
+}
+
+export interface LrcDocument {
+  lines: LrcLine[];
+  tags: LrcTags;
+  diagnostics: LrcDiagnostic[];
 }
 
 export enum MediaType {
@@ -15,6 +84,7 @@ export interface BackgroundMedia {
   src: string; // Blob URL
   file: File;
   duration: number; // For images (seconds), for videos (0 = auto/original length)
+  followsSong?: boolean; // Video shows the frame at the song's time instead of playing from the start of its slot
 }
 
 export interface CanvasConfig {
@@ -74,6 +144,14 @@ export interface TitleConfig {
   producer: string;
 }
 
+// One line of the title sequence, in display order
+export interface TitleElement {
+  text: string;
+  type: 'title' | 'subtitle' | 'credit' | 'label';
+  delay: number; // Stagger delay in seconds
+  fontSizeMult: number;
+}
+
 export enum AspectRatio {
   LANDSCAPE_16_9 = '16:9',
   PORTRAIT_9_16 = '9:16',
@@ -89,6 +167,15 @@ export interface SavedProjectSummary {
   thumbnail?: string; // Base64 placeholder for future
 }
 
+// Offline analysis of the song, computed once and stored with the project
+export interface AudioAnalysis {
+  bpm: number; // Rounded to 0.1, for display
+  beatInterval?: number; // Exact beat period (seconds); projects saved before it existed only have bpm
+  beatOffset: number; // Time of the first beat of the grid (seconds)
+  onsets: number[]; // Note/word attack times (seconds)
+  duration: number;
+}
+
 // The complete serialized state
 export interface SavedProjectData {
   id: string;
@@ -104,8 +191,13 @@ export interface SavedProjectData {
   transitionDuration: number;
 
   lrcLines: LrcLine[];
+  lrcTags?: LrcTags;
+  translationTracks?: TranslationTrack[];
+  pendingTranslations?: PendingTranslation[];
+  glossary?: GlossaryEntry[];
   // Assets Metadata
   audioFileName?: string;
+  audioAnalysis?: AudioAnalysis;
   // We don't store Blobs in this object directly for structure, but they are stored in the 'assets' store
   // and referenced here.
   backgrounds: {
@@ -113,5 +205,6 @@ export interface SavedProjectData {
     type: MediaType;
     duration: number;
     fileName: string;
+    followsSong?: boolean;
   }[];
 }
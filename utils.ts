@@ -1,25 +1,461 @@
-import { LrcLine } from './types';
+import { LrcLine, LrcWord, LrcTags, LrcDocument, LrcDiagnostic, TitleConfig, TitleElement, TranslationTrack } from './types';
 
-// Parse standard LRC format [mm:ss.xx]
-export const parseLrc = (lrcContent: string): LrcLine[] => {
-  const lines = lrcContent.split('\n');
+// Maps LrcTags fields to their LRC header keys (order is the export order)
+const LRC_TAG_KEYS: Record<keyof LrcTags, string> = {
+  title: 'ti',
+  artist: 'ar',
+  album: 'al',
+  author: 'au',
+  by: 'by',
+  length: 'length',
+};
+
+// Header tags that carry no data we keep but are valid LRC
+const IGNORED_LRC_TAGS = ['re', 've', 'tool', '#'];
+
+// Timestamp body without brackets. Accepts m:ss, mm:ss.xx, mm:ss.xxx, mm:ss:xx and h:mm:ss.xx
+const TIMESTAMP_BODY = '\\d+:\\d{1,2}(?::\\d{1,2})?(?:[.:]\\d{1,3})?';
+
+export const parseLrcTimestamp = (body: string): number | null => {
+  const fraction = (value?: string) => value ? parseInt(value.padEnd(3, '0'), 10) / 1000 : 0;
+
+  // m:ss, mm:ss.xx, mm:ss:xx (colon before centiseconds is a common variant)
+  let match = /^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/.exec(body);
+  if (match) return parseInt(match[1], 10) * 60 + parseInt(match[2], 10) + fraction(match[3]);
+
+  // h:mm:ss.xx. Without the fraction the hour form is indistinguishable from mm:ss:xx, which wins above;
+  // parseLrc reports files where that reading is doubtful.
+  match = /^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/.exec(body);
+  if (match) return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10) + fraction(match[4]);
+
+  return null;
+};
+
+// Split enhanced LRC (A2) text "<00:12.00>Some <00:12.50>words" into word timings.
+// Concatenating the returned word texts yields the plain line text.
+const parseWordTimings = (content: string): { text: string; words?: LrcWord[] } => {
+  const wordRegExp = new RegExp(`<(${TIMESTAMP_BODY})>`, 'g');
+  const matches = Array.from(content.matchAll(wordRegExp));
+  if (matches.length === 0) return { text: content.trim() };
+
+  const words: LrcWord[] = [];
+  matches.forEach((match, i) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = matches[i + 1]?.index ?? content.length;
+    const time = parseLrcTimestamp(match[1]) ?? 0;
+    const wordText = content.slice(start, end);
+    if (wordText.trim() === '' && i === matches.length - 1 && words.length > 0) {
+      // Trailing tag marks the end of the last word
+      words[words.length - 1].endTime = time;
+      return;
+    }
+    words.push({ time, text: wordText });
+  });
+  if (words.length === 0) return { text: content.replace(wordRegExp, '').trim() };
+
+  words[0].text = words[0].text.trimStart();
+  words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+  return { text: words.map(w => w.text).join(''), words };
+};
+
+// Han, kana and Hangul: each character is sung (and timed) on its own
+export const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const WORD_PUNCTUATION = /[\s.,!?;:'"()\-~…、。，！？；：・「」『』（）～]/;
+
+// Kanji/hanzi, which take a ruby reading as a group
+const HAN_CHAR = /[\u3400-\u9fff\uf900-\ufaff々〆ヶ]/;
+
+// Part of a line with ruby markup: plain text, or a base with its reading
+export interface RubySegment {
+  text: string; // Base text as displayed
+  ruby?: string;
+  source: string; // The markup this segment came from
+}
+
+// Ruby annotations are written base{reading}, e.g. 漢字{かんじ} or 你好{nǐ hǎo}. The base is the run of
+// kanji/hanzi before the brace, or the word before it in other scripts; |東京タワー{とうきょうタワー} sets it explicitly.
+export const parseRuby = (text: string): RubySegment[] => {
+  const segments: RubySegment[] = [];
+  const pushPlain = (plain: string) => {
+    if (!plain) return;
+    const prev = segments[segments.length - 1];
+    if (prev && prev.ruby === undefined) {
+      prev.text += plain;
+      prev.source += plain;
+    } else {
+      segments.push({ text: plain, source: plain });
+    }
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(/\{([^{}\n]*)\}/g)) {
+    const index = match.index ?? 0;
+    const before = text.slice(last, index);
+    const bar = before.lastIndexOf('|');
+    let plain: string;
+    let base: string;
+    let marker = '';
+    if (bar !== -1 && bar < before.length - 1) {
+      plain = before.slice(0, bar);
+      base = before.slice(bar + 1);
+      marker = '|';
+    } else {
+      const chars = Array.from(before);
+      const isHan = chars.length > 0 && HAN_CHAR.test(chars[chars.length - 1]);
+      let start = chars.length;
+      while (start > 0) {
+        const c = chars[start - 1];
+        if (isHan ? !HAN_CHAR.test(c) : (HAN_CHAR.test(c) || WORD_PUNCTUATION.test(c))) break;
+        start--;
+      }
+      plain = chars.slice(0, start).join('');
+      base = chars.slice(start).join('');
+    }
+
+    if (!base || match[1].trim() === '') {
+      pushPlain(before + match[0]); // Not an annotation, keep the braces as text
+    } else {
+      pushPlain(plain);
+      segments.push({ text: base, ruby: match[1].trim(), source: `${marker}${base}${match[0]}` });
+    }
+    last = index + match[0].length;
+  }
+  pushPlain(text.slice(last));
+  return segments;
+};
+
+// Base text without annotations
+export const stripRuby = (text: string): string => parseRuby(text).map(s => s.text).join('');
+
+export const hasRuby = (text: string): boolean => parseRuby(text).some(s => s.ruby !== undefined);
+
+// The first `count` base characters with their markup; a reading appears once its whole base does
+export const sliceRuby = (text: string, count: number): string => {
+  let remaining = count;
+  let result = '';
+  for (const segment of parseRuby(text)) {
+    if (remaining <= 0) break;
+    const chars = Array.from(segment.text);
+    if (chars.length <= remaining) {
+      result += segment.ruby !== undefined ? `|${segment.text}{${segment.ruby}}` : segment.text;
+    } else {
+      result += chars.slice(0, remaining).join('');
+    }
+    remaining -= chars.length;
+  }
+  return result;
+};
+
+// Split a line into the units tapped in word sync: Latin words, or single CJK characters.
+// Spaces and punctuation stay attached to the word before them, so the parts join back into the line.
+// An annotated base is kept whole, together with its reading.
+export const splitIntoWords = (text: string): string[] => {
+  const words: string[] = [];
+  let current = '';
+  let hasLetter = false;
+  let breakBefore = false; // The next letter starts a new word
+  for (const segment of parseRuby(text)) {
+    if (segment.ruby !== undefined) {
+      if (hasLetter) words.push(current);
+      current = segment.source;
+      hasLetter = true;
+      breakBefore = true;
+      continue;
+    }
+    for (const char of Array.from(segment.text)) {
+      if (WORD_PUNCTUATION.test(char)) {
+        current += char;
+        if (/\s/.test(char)) breakBefore = true;
+        continue;
+      }
+      const isCjk = CJK_CHAR.test(char);
+      if (hasLetter && (breakBefore || isCjk)) {
+        words.push(current);
+        current = '';
+      }
+      current += char;
+      hasLetter = true;
+      breakBefore = isCjk;
+    }
+  }
+  if (current) words.push(current);
+  return words;
+};
+
+export interface LrcParseOptions {
+  duration?: number; // Audio length in seconds; later timestamps are reported
+  cueRowsAsTranslations?: boolean; // SRT/VTT: a cue's rows after the first are translations, not more lyric
+}
+
+// Parse LRC leniently and report everything that was skipped or looks suspicious.
+// Supports ID tags, [offset:], lines carrying several timestamps ([00:31.20][01:42.10]text),
+// enhanced LRC word timestamps (<mm:ss.xx>), BOM and \r\n line endings.
+export const parseLrc = (lrcContent: string, options: LrcParseOptions = {}): LrcDocument => {
+  const lines = lrcContent.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
   const result: LrcLine[] = [];
-  const timeRegExp = /\[(\d{2}):(\d{2})\.(\d{2,3})\]/;
+  const sourceLines = new Map<LrcLine, number>(); // Parsed line -> 1-based line number in the file
+  const diagnostics: LrcDiagnostic[] = [];
+  const tags: LrcTags = {};
+  let offsetMs = 0;
+  let lastStartTime = -1;
+  let lastStartLine = 0;
+  const timeRegExp = new RegExp(`\\[(${TIMESTAMP_BODY})\\]`, 'g');
+  // Three fields without a fraction: read as mm:ss:xx, but could be h:mm:ss
+  const ambiguous: { lineNumber: number; body: string; third: number; asHours: number }[] = [];
+  const tagRegExp = /^\[([a-z#]+):(.*)\]$/i;
+
+  lines.forEach((rawLine, i) => {
+    const lineNumber = i + 1;
+    const line = rawLine.trim();
+    if (line === '') return;
+
+    const tagMatch = tagRegExp.exec(line);
+    if (tagMatch) {
+      const key = tagMatch[1].toLowerCase();
+      const value = tagMatch[2].trim();
+      if (key === 'offset') {
+        offsetMs = parseInt(value, 10) || 0;
+        return;
+      }
+      const field = (Object.keys(LRC_TAG_KEYS) as (keyof LrcTags)[]).find(k => LRC_TAG_KEYS[k] === key);
+      if (field) {
+        tags[field] = value;
+      } else if (!IGNORED_LRC_TAGS.includes(key)) {
+        diagnostics.push({ type: 'skipped', lineNumber, message: `Unknown tag [${tagMatch[1]}:...] ignored` });
+      }
+      return;
+    }
+
+    const matches = Array.from(line.matchAll(timeRegExp));
+    if (matches.length === 0) {
+      diagnostics.push({ type: 'skipped', lineNumber, message: `No timestamp found: "${line.slice(0, 40)}"` });
+      return;
+    }
+
+    // Allow empty text lines for spacing/timing
+    const { text, words } = parseWordTimings(line.replace(timeRegExp, ''));
+    const times = matches.map(match => parseLrcTimestamp(match[1]) ?? 0);
+    matches.forEach(match => {
+      const fields = /^(\d+):(\d{1,2}):(\d{1,2})$/.exec(match[1]);
+      if (fields) {
+        const [h, m, s] = fields.slice(1).map(Number);
+        ambiguous.push({ lineNumber, body: match[1], third: s, asHours: h * 3600 + m * 60 + s });
+      }
+    });
+    const firstTime = times[0];
 
-  lines.forEach((line) => {
-    const match = timeRegExp.exec(line);
-    if (match) {
-      const minutes = parseInt(match[1], 10);
-      const seconds = parseInt(match[2], 10);
-      const milliseconds = parseInt(match[3].padEnd(3, '0'), 10);
-      const time = minutes * 60 + seconds + milliseconds / 1000;
-      const text = line.replace(timeRegExp, '').trim();
-      // Allow empty text lines for spacing/timing
-      result.push({ time, text });
+    if (firstTime < lastStartTime) {
+      diagnostics.push({ type: 'out_of_order', lineNumber, message: `Timestamp ${formatLrcTime(firstTime)} is earlier than line ${lastStartLine}` });
+    } else {
+      lastStartTime = firstTime;
+      lastStartLine = lineNumber;
     }
+
+    times.forEach(time => {
+      let entry: LrcLine;
+      if (!words) {
+        entry = { time, text };
+      } else {
+        // Word stamps are absolute for the first timestamp; repeated lines get them shifted
+        const delta = time - firstTime;
+        entry = {
+          time,
+          text,
+          words: words.map(w => ({
+            ...w,
+            time: w.time + delta,
+            endTime: w.endTime !== undefined ? w.endTime + delta : undefined,
+          })),
+        };
+      }
+      result.push(entry);
+      sourceLines.set(entry, lineNumber);
+    });
   });
 
-  return result.sort((a, b) => a.time - b.time);
+  // Centiseconds of 60 and up, or hour readings past the end of the audio, settle it as mm:ss:xx
+  const settled = ambiguous.some(a => a.third >= 60) || (!!options.duration && ambiguous.some(a => a.asHours > options.duration!));
+  if (ambiguous.length > 0 && !settled) {
+    const first = ambiguous[0];
+    diagnostics.push({
+      type: 'ambiguous_time',
+      lineNumber: first.lineNumber,
+      message: `${ambiguous.length} timestamp(s) like [${first.body}] have no fraction and were read as mm:ss:xx; if they mean h:mm:ss, write [${first.body}.00]`,
+    });
+  }
+
+  // Positive offset means lyrics should appear earlier
+  if (offsetMs !== 0) {
+    const shift = (t: number) => Math.max(0, t - offsetMs / 1000);
+    result.forEach(line => {
+      line.time = shift(line.time);
+      line.words?.forEach(w => {
+        w.time = shift(w.time);
+        if (w.endTime !== undefined) w.endTime = shift(w.endTime);
+      });
+    });
+  }
+
+  result.sort((a, b) => a.time - b.time);
+
+  result.forEach((line, i) => {
+    const lineNumber = sourceLines.get(line) ?? 0;
+    const prev = result[i - 1];
+    if (prev && prev.time === line.time) {
+      const asTranslation = prev.text !== '' && line.text !== '';
+      diagnostics.push({
+        type: 'duplicate_time',
+        lineNumber,
+        message: `Same timestamp ${formatLrcTime(line.time)} as line ${sourceLines.get(prev)}${asTranslation ? ' (kept as a translation)' : ''}`,
+      });
+    }
+    if (options.duration && line.time > options.duration) {
+      diagnostics.push({ type: 'past_duration', lineNumber, message: `Timestamp ${formatLrcTime(line.time)} is past the end of the audio (${formatTime(options.duration)})` });
+    }
+  });
+
+  // A blank timestamp line right after a lyric marks that lyric's end time
+  const merged: LrcLine[] = [];
+  result.forEach(line => {
+    const prev = merged[merged.length - 1];
+    if (line.text === '' && prev && prev.text !== '' && prev.endTime === undefined && line.time > prev.time) {
+      prev.endTime = line.time;
+      return;
+    }
+    merged.push(line);
+  });
+
+  return {
+    lines: foldTranslationLines(merged),
+    tags,
+    diagnostics: diagnostics.sort((a, b) => a.lineNumber - b.lineNumber),
+  };
+};
+
+// Track name used for translations that arrive as same-timestamp LRC lines
+export const DEFAULT_TRANSLATION_TRACK = 'Translation';
+
+// Bilingual LRC (and legacy projects) store translations as extra lines sharing the
+// original's timestamp. Fold them into the original line's translation tracks.
+export const foldTranslationLines = (lines: LrcLine[]): LrcLine[] => {
+  const result: LrcLine[] = [];
+  let trackIndex = 0;
+  lines.forEach(line => {
+    const prev = result[result.length - 1];
+    if (prev && prev.time === line.time && prev.text !== '' && line.text !== '' && !line.translations) {
+      trackIndex++;
+      const name = trackIndex === 1 ? DEFAULT_TRANSLATION_TRACK : `${DEFAULT_TRANSLATION_TRACK} ${trackIndex}`;
+      prev.translations = { ...prev.translations, [name]: line.text };
+      if (prev.endTime === undefined && line.endTime !== undefined) prev.endTime = line.endTime;
+      return;
+    }
+    trackIndex = 0;
+    result.push(line);
+  });
+  return result;
+};
+
+// Translation track names in order of first appearance
+export const getTranslationTrackNames = (lines: LrcLine[]): string[] => {
+  const names: string[] = [];
+  lines.forEach(line => {
+    Object.keys(line.translations || {}).forEach(name => {
+      if (!names.includes(name)) names.push(name);
+    });
+  });
+  return names;
+};
+
+// Keep track styles for names still in use and add defaults for new ones
+export const syncTranslationTracks = (tracks: TranslationTrack[], lines: LrcLine[]): TranslationTrack[] => {
+  const names = getTranslationTrackNames(lines);
+  const synced = names.map(name => tracks.find(t => t.name === name) || {
+    name,
+    fontSize: 32,
+    color: '#a5f3fc',
+    visible: true,
+  });
+  const unchanged = synced.length === tracks.length && synced.every((t, i) => t === tracks[i]);
+  return unchanged ? tracks : synced;
+};
+
+// Fallback display length for the last line when nothing marks its end
+export const DEFAULT_LAST_LINE_DURATION = 5;
+
+// End of a line: explicit end time, else the next line's start, else a fixed duration
+export const getLineEndTime = (lines: LrcLine[], index: number): number => {
+  const line = lines[index];
+  if (line.endTime !== undefined && line.endTime > line.time) return line.endTime;
+  const next = lines.slice(index + 1).find(l => l.time > line.time);
+  return next ? next.time : line.time + DEFAULT_LAST_LINE_DURATION;
+};
+
+// Move a line to a new start time, keeping its end and word timings relative to the start
+export const retimeLine = (line: LrcLine, time: number): LrcLine => {
+  const delta = time - line.time;
+  const shift = (t: number) => Math.max(0, t + delta);
+  const moved: LrcLine = { ...line, time };
+  if (line.endTime !== undefined) moved.endTime = shift(line.endTime);
+  if (line.words) {
+    moved.words = line.words.map(w => ({
+      ...w,
+      time: shift(w.time),
+      endTime: w.endTime !== undefined ? shift(w.endTime) : undefined,
+    }));
+  }
+  return moved;
+};
+
+// Move the given lines by the same amount (seconds), as far as their unselected neighbours allow
+export const shiftLines = (lines: LrcLine[], indexes: number[], delta: number): LrcLine[] => {
+  const selected = new Set(indexes);
+  // Selected lines stop at their unselected neighbours (and at 0) rather than passing them
+  let min = -Infinity;
+  let max = Infinity;
+  indexes.forEach(i => {
+    const line = lines[i];
+    if (!line) return;
+    min = Math.max(min, -line.time);
+    const prev = lines[i - 1];
+    if (prev && !selected.has(i - 1) && prev.time <= line.time) min = Math.max(min, prev.time - line.time);
+    const next = lines[i + 1];
+    if (next && !selected.has(i + 1) && next.time >= line.time) max = Math.min(max, next.time - line.time);
+  });
+  const clamped = Math.min(max, Math.max(min, delta));
+  if (clamped === 0) return lines;
+  return lines.map((line, i) => selected.has(i) ? retimeLine(line, Math.max(0, Math.round((line.time + clamped) * 1000) / 1000)) : line);
+};
+
+// True when retiming moved a line past one of its neighbours
+export const crossesNeighbours = (before: LrcLine[], after: LrcLine[]): boolean => {
+  return after.some((line, i) => i > 0 && line.time < after[i - 1].time && before[i].time >= before[i - 1].time);
+};
+
+// Rescale every timestamp of the given lines linearly, so that the first of them starts at firstTime
+// and the last at lastTime. For lyrics timed against a faster or slower master of the song.
+export const stretchLines = (lines: LrcLine[], indexes: number[], firstTime: number, lastTime: number): LrcLine[] => {
+  const sorted = [...indexes].sort((a, b) => a - b);
+  if (sorted.length < 2) return lines;
+  const from = lines[sorted[0]].time;
+  const to = lines[sorted[sorted.length - 1]].time;
+  if (to === from) return lines;
+
+  const scale = (lastTime - firstTime) / (to - from);
+  const map = (t: number) => Math.max(0, firstTime + (t - from) * scale);
+  const selected = new Set(sorted);
+  return lines.map((line, i) => {
+    if (!selected.has(i)) return line;
+    const stretched: LrcLine = { ...line, time: map(line.time) };
+    if (line.endTime !== undefined) stretched.endTime = map(line.endTime);
+    if (line.words) {
+      stretched.words = line.words.map(w => ({
+        ...w,
+        time: map(w.time),
+        endTime: w.endTime !== undefined ? map(w.endTime) : undefined,
+      }));
+    }
+    return stretched;
+  });
 };
 
 export const formatTime = (seconds: number): string => {
@@ -28,15 +464,95 @@ export const formatTime = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
-export const formatLrcTime = (seconds: number): string => {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 100);
-  return `[${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}]`;
+// mm:ss.xx without brackets. precision: number of fractional digits (2 = centiseconds, 3 = milliseconds)
+const formatTimestamp = (seconds: number, precision: 2 | 3): string => {
+  const unit = Math.pow(10, precision);
+  const total = Math.round(Math.max(0, seconds) * unit);
+  const mins = Math.floor(total / (60 * unit));
+  const secs = Math.floor(total / unit) % 60;
+  const frac = total % unit;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${frac.toString().padStart(precision, '0')}`;
+};
+
+export const formatLrcTime = (seconds: number, precision: 2 | 3 = 2): string => {
+  return `[${formatTimestamp(seconds, precision)}]`;
+};
+
+export interface LrcExportOptions {
+  tags?: LrcTags;
+  precision?: 2 | 3;
+  includeTranslations?: boolean; // Write translations as same-timestamp lines (bilingual LRC)
+  stripRuby?: boolean; // Drop base{reading} annotations, for players that would show the braces
+}
+
+export const generateLrc = (lines: LrcLine[], options: LrcExportOptions = {}): string => {
+  const { tags = {}, precision = 2, includeTranslations = true } = options;
+  const clean = (text: string) => options.stripRuby ? stripRuby(text) : text;
+  const header = (Object.keys(LRC_TAG_KEYS) as (keyof LrcTags)[])
+    .filter(key => tags[key])
+    .map(key => `[${LRC_TAG_KEYS[key]}:${tags[key]}]`);
+  const formatLine = (line: LrcLine): string => {
+    if (!line.words || line.words.length === 0) {
+      // LRC has no multi-line cues
+      return `${formatLrcTime(line.time, precision)}${clean(line.text).replace(/\n/g, ' ')}`;
+    }
+    // Enhanced LRC: <mm:ss.xx> before each word, optional trailing end stamp
+    const lastWord = line.words[line.words.length - 1];
+    const wordText = line.words.map(w => `<${formatTimestamp(w.time, precision)}>${clean(w.text)}`).join('');
+    const endStamp = lastWord.endTime !== undefined ? `<${formatTimestamp(lastWord.endTime, precision)}>` : '';
+    return `${formatLrcTime(line.time, precision)}${wordText}${endStamp}`;
+  };
+  const body: string[] = [];
+  lines.forEach((line, i) => {
+    body.push(formatLine(line));
+    if (includeTranslations && line.translations) {
+      Object.values(line.translations).filter(t => t.trim() !== '').forEach(t => {
+        body.push(`${formatLrcTime(line.time, precision)}${clean(t).replace(/\n/g, ' ')}`);
+      });
+    }
+    // End times are written as a blank timestamp line when a gap follows
+    const next = lines[i + 1];
+    if (line.endTime !== undefined && line.endTime > line.time && line.text !== '' && (!next || next.time > line.endTime)) {
+      body.push(formatLrcTime(line.endTime, precision));
+    }
+  });
+  return [...header, ...body].join('\n');
 };
 
-export const generateLrc = (lines: LrcLine[]): string => {
-  return lines.map(line => `${formatLrcTime(line.time)}${line.text}`).join('\n');
+// Title sequence lines with their stagger delays, shared by the renderer and exporters
+export const buildTitleElements = (config: TitleConfig): TitleElement[] => {
+  const elements: TitleElement[] = [];
+  let staggerTimer = 0;
+  const staggerStep = 0.4; // 400ms between items
+
+  if (config.title) {
+    elements.push({ text: config.title, type: 'title', delay: staggerTimer, fontSizeMult: 1.0 });
+    staggerTimer += staggerStep;
+  }
+  if (config.subtitle) {
+    elements.push({ text: config.subtitle, type: 'subtitle', delay: staggerTimer, fontSizeMult: 0.6 });
+    staggerTimer += staggerStep;
+  }
+  if (config.artist) {
+    elements.push({ text: config.artist, type: 'credit', delay: staggerTimer, fontSizeMult: 0.5 });
+    staggerTimer += staggerStep;
+  }
+
+  // Combine tech credits
+  const techCredits = [
+    config.author ? `Lyrics: ${config.author}` : null,
+    config.composer ? `Music: ${config.composer}` : null,
+    config.producer ? `Prod: ${config.producer}` : null,
+  ].filter(Boolean);
+
+  techCredits.forEach(tc => {
+    if (tc) {
+      elements.push({ text: tc, type: 'credit', delay: staggerTimer, fontSizeMult: 0.4 });
+      staggerTimer += 0.2; // faster for list
+    }
+  });
+
+  return elements;
 };
 
 export const getResolution = (aspect: string, quality: '720p' | '1080p' = '1080p') => {
@@ -0,0 +1,165 @@
+import { LrcLine, LyricStyle, TitleConfig, TitleLayoutMode, AspectRatio, LyricEffect } from '../types';
+import { getResolution, getLineEndTime, buildTitleElements, stripRuby } from '../utils';
+
+export interface AssExportOptions {
+  lyricStyle: LyricStyle;
+  titleStyle: LyricStyle;
+  titleConfig: TitleConfig;
+  aspectRatio: AspectRatio;
+}
+
+const STYLE_FORMAT = 'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+const EVENT_FORMAT = 'Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text';
+
+// '#rgb', '#rrggbb' or '#rrggbbaa' -> &HAABBGGRR (ASS alpha is inverted: 00 = opaque)
+const toAssColor = (hex: string): string => {
+  let value = hex.replace('#', '');
+  if (value.length === 3) value = value.split('').map(c => c + c).join('');
+  const r = value.slice(0, 2) || '00';
+  const g = value.slice(2, 4) || '00';
+  const b = value.slice(4, 6) || '00';
+  const alpha = value.length >= 8 ? 255 - parseInt(value.slice(6, 8), 16) : 0;
+  return `&H${alpha.toString(16).padStart(2, '0')}${b}${g}${r}`.toUpperCase();
+};
+
+// h:mm:ss.cc
+const formatAssTime = (seconds: number): string => {
+  const totalCs = Math.round(Math.max(0, seconds) * 100);
+  const hours = Math.floor(totalCs / 360000);
+  const mins = Math.floor(totalCs / 6000) % 60;
+  const secs = Math.floor(totalCs / 100) % 60;
+  const cs = totalCs % 100;
+  return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+};
+
+// ASS has no ruby, so annotations are dropped and only the base text is kept
+const escapeAssText = (text: string): string => {
+  return stripRuby(text).replace(/\\/g, '\\\\').replace(/\{/g, '(').replace(/\}/g, ')').replace(/\n/g, '\\N');
+};
+
+// Canvas text is drawn centered on (positionX, positionY), so every style uses alignment 5 and \pos
+const buildStyle = (name: string, style: LyricStyle, fontSize: number, primary: string, secondary: string): string => {
+  const outline = style.shadowBlur > 0 ? Math.max(1, Math.round(style.shadowBlur / 5)) : 0;
+  return `Style: ${[
+    name,
+    style.fontFamily,
+    Math.round(fontSize),
+    toAssColor(primary),
+    toAssColor(secondary),
+    toAssColor(style.shadowColor),
+    toAssColor(style.shadowColor),
+    -1, 0, 0, 0, // Bold, Italic, Underline, StrikeOut
+    100, 100, 0, 0, // ScaleX, ScaleY, Spacing, Angle
+    1, outline, 0, // BorderStyle, Outline, Shadow
+    5, 0, 0, 0, // Alignment, MarginL, MarginR, MarginV
+    1,
+  ].join(',')}`;
+};
+
+// Soft canvas shadow is approximated with an outline in the shadow colour plus \blur
+const effectTags = (style: LyricStyle, x: number, y: number): string => {
+  const tags = [`\\pos(${Math.round(x)},${Math.round(y)})`];
+  if (style.shadowBlur > 0) tags.push(`\\blur${Math.round(style.shadowBlur / 4)}`);
+  if (style.animationEffect === LyricEffect.FADE_UP) tags.push('\\fad(500,0)');
+  return tags.join('');
+};
+
+const toCentiseconds = (seconds: number) => Math.max(0, Math.round(seconds * 100));
+
+// \kf sweeps each syllable like the canvas karaoke wipe; lines without word timings sweep as one block.
+// Timings count from start, which is later than line.time when the title sequence covers the line;
+// syllables sung before then are shown already swept.
+const buildKaraokeText = (line: LrcLine, start: number, end: number): string => {
+  const words = line.words;
+  if (!words || words.length === 0) {
+    return `{\\kf${toCentiseconds(end - start)}}${escapeAssText(line.text)}`;
+  }
+  const parts: string[] = [];
+  if (words[0].time > start) parts.push(`{\\k${toCentiseconds(words[0].time - start)}}`);
+  words.forEach((word, i) => {
+    const wordEnd = words[i + 1]?.time ?? word.endTime ?? end;
+    parts.push(`{\\kf${toCentiseconds(wordEnd - Math.max(word.time, start))}}${escapeAssText(word.text)}`);
+  });
+  return parts.join('');
+};
+
+export const generateAss = (lines: LrcLine[], options: AssExportOptions): string => {
+  const { lyricStyle, titleStyle, titleConfig, aspectRatio } = options;
+  const { width, height } = getResolution(aspectRatio);
+  const isKaraoke = lyricStyle.animationEffect === LyricEffect.KARAOKE;
+
+  // In karaoke, SecondaryColour is the unsung state and PrimaryColour the sung one
+  const styles = [
+    buildStyle('Lyric', lyricStyle, lyricStyle.fontSize, lyricStyle.activeColor, lyricStyle.fontColor),
+    buildStyle('Title', titleStyle, titleStyle.fontSize, titleStyle.activeColor, titleStyle.fontColor),
+    buildStyle('Subtitle', titleStyle, titleStyle.fontSize * 0.6, titleStyle.activeColor, titleStyle.fontColor),
+    buildStyle('Credit', titleStyle, titleStyle.fontSize * 0.5, titleStyle.activeColor, titleStyle.fontColor),
+  ];
+
+  const events: string[] = [];
+
+  // Title sequence, laid out like the canvas renderer
+  if (titleConfig.enabled) {
+    const elements = buildTitleElements(titleConfig);
+    const cx = width * titleStyle.positionX;
+    const cy = height * titleStyle.positionY;
+    const step = (mult: number) => titleStyle.fontSize * mult * 1.5;
+    const totalSize = elements.reduce((acc, e) => acc + step(e.fontSizeMult), 0);
+    const isVertical = titleConfig.layoutMode === TitleLayoutMode.VERTICAL_RIGHT;
+
+    elements.forEach((el, index) => {
+      if (el.delay >= titleConfig.duration) return;
+      const fontSize = titleStyle.fontSize * el.fontSizeMult;
+      const offset = elements.slice(0, index).reduce((acc, e) => acc + step(e.fontSizeMult), 0);
+      let x = cx;
+      let y = cy;
+      if (titleConfig.layoutMode === TitleLayoutMode.CENTERED) {
+        y = cy - totalSize / 2 + offset + fontSize / 2;
+      } else if (isVertical) {
+        x = cx + totalSize / 2 - offset - fontSize / 2;
+      } else if (titleConfig.layoutMode === TitleLayoutMode.CINEMATIC) {
+        if (el.type === 'title') y = cy - 40;
+        else if (el.type === 'subtitle') y = cy + fontSize;
+        else y = height * 0.85 + (index - 2) * fontSize * 1.5;
+      }
+
+      const styleName = el.type === 'title' ? 'Title' : el.type === 'subtitle' ? 'Subtitle' : 'Credit';
+      const sizeTag = styleName === 'Credit' && el.fontSizeMult !== 0.5 ? `\\fs${Math.round(fontSize)}` : '';
+      const text = isVertical ? Array.from(stripRuby(el.text)).map(escapeAssText).join('\\N') : escapeAssText(el.text);
+      const tags = `{\\pos(${Math.round(x)},${Math.round(y)})${sizeTag}\\fad(1000,1000)}`;
+      events.push(`Dialogue: 1,${formatAssTime(el.delay)},${formatAssTime(titleConfig.duration)},${styleName},,0,0,0,,${tags}${text}`);
+    });
+  }
+
+  // Lyrics (empty lines are gaps)
+  const x = width * lyricStyle.positionX;
+  const y = height * lyricStyle.positionY;
+  const titleEnd = titleConfig.enabled ? titleConfig.duration : 0;
+  lines.forEach((line, i) => {
+    if (line.text.trim() === '') return;
+    const end = getLineEndTime(lines, i);
+    if (end <= titleEnd) return; // Hidden behind the title sequence in the renderer
+    const start = Math.max(line.time, titleEnd);
+    const text = isKaraoke ? buildKaraokeText(line, start, end) : escapeAssText(line.text);
+    events.push(`Dialogue: 0,${formatAssTime(start)},${formatAssTime(end)},Lyric,,0,0,0,,{${effectTags(lyricStyle, x, y)}}${text}`);
+  });
+
+  return [
+    '[Script Info]',
+    `Title: ${titleConfig.title || 'VibeFlow Export'}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    `Format: ${STYLE_FORMAT}`,
+    ...styles,
+    '',
+    '[Events]',
+    `Format: ${EVENT_FORMAT}`,
+    ...events,
+    '',
+  ].join('\n');
+};
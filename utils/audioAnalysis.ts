@@ -0,0 +1,230 @@
+import { AudioAnalysis } from '../types';
+
+// Spectral-flux onset detection and autocorrelation tempo estimation, run offline on the decoded song
+
+const SAMPLE_RATE = 22050;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120; // Tempo prior: halves and doubles of the true tempo score almost as well
+const MAX_REFINE_DRIFT = 0.1; // Largest relative change the onset fit may make to the estimated beat period
+const THRESHOLD_WINDOW = 8; // Frames each side for the adaptive threshold
+const THRESHOLD_DELTA = 0.05;
+const MIN_ONSET_GAP = 0.05; // Seconds
+
+export type SnapTarget = 'onset' | 'beat';
+
+// Mono, resampled copy of the song so the analysis cost does not depend on the source format
+const renderMono = async (buffer: AudioBuffer): Promise<Float32Array> => {
+  const offline = new OfflineAudioContext(1, Math.ceil(buffer.duration * SAMPLE_RATE), SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+// In-place iterative radix-2 FFT
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = -2 * Math.PI / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+// Positive change in log spectrum per frame, normalised to 0..1. Frame i is centered on i * HOP_SIZE.
+const spectralFlux = (samples: Float32Array): Float32Array => {
+  const frameCount = Math.ceil(samples.length / HOP_SIZE);
+  const flux = new Float32Array(frameCount);
+  const window = new Float32Array(FRAME_SIZE).map((_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / FRAME_SIZE));
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+  let previous = new Float32Array(FRAME_SIZE / 2);
+  let current = new Float32Array(FRAME_SIZE / 2);
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * HOP_SIZE - FRAME_SIZE / 2;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const s = samples[start + i];
+      re[i] = s === undefined ? 0 : s * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    let sum = 0;
+    for (let b = 0; b < FRAME_SIZE / 2; b++) {
+      current[b] = Math.log1p(100 * Math.hypot(re[b], im[b]));
+      const rise = current[b] - previous[b];
+      if (rise > 0 && f > 0) sum += rise;
+    }
+    flux[f] = sum;
+    [previous, current] = [current, previous];
+  }
+
+  const max = flux.reduce((acc, v) => Math.max(acc, v), 0);
+  return max > 0 ? flux.map(v => v / max) : flux;
+};
+
+const frameToTime = (frame: number) => frame * HOP_SIZE / SAMPLE_RATE;
+
+interface BeatGrid {
+  beatInterval: number; // Seconds
+  beatOffset: number;
+}
+
+// Local maxima that clear a moving-average threshold
+const pickOnsets = (flux: Float32Array): number[] => {
+  const onsets: number[] = [];
+  for (let i = 1; i < flux.length - 1; i++) {
+    const from = Math.max(0, i - THRESHOLD_WINDOW);
+    const to = Math.min(flux.length, i + THRESHOLD_WINDOW + 1);
+    let mean = 0;
+    let isPeak = true;
+    for (let j = from; j < to; j++) {
+      mean += flux[j];
+      if (flux[j] > flux[i]) isPeak = false;
+    }
+    mean /= to - from;
+    if (!isPeak || flux[i] < mean + THRESHOLD_DELTA) continue;
+
+    const time = frameToTime(i);
+    if (onsets.length > 0 && time - onsets[onsets.length - 1] < MIN_ONSET_GAP) continue;
+    onsets.push(Math.round(time * 1000) / 1000);
+  }
+  return onsets;
+};
+
+// Best beat period (in frames) by autocorrelation of the flux, then the grid phase that hits the most energy
+const estimateTempo = (flux: Float32Array): BeatGrid => {
+  const framesPerSecond = SAMPLE_RATE / HOP_SIZE;
+  const minLag = Math.floor(framesPerSecond * 60 / MAX_BPM);
+  const maxLag = Math.ceil(framesPerSecond * 60 / MIN_BPM);
+  const mean = flux.reduce((acc, v) => acc + v, 0) / (flux.length || 1);
+
+  const scores = new Float32Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = lag; i < flux.length; i++) sum += (flux[i] - mean) * (flux[i - lag] - mean);
+    const bpm = 60 * framesPerSecond / lag;
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM), 2));
+    scores[lag] = sum * prior;
+  }
+
+  let bestLag = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[bestLag]) bestLag = lag;
+  }
+
+  // Parabolic interpolation for a sub-frame period
+  let period = bestLag;
+  const a = scores[bestLag - 1] ?? 0;
+  const b = scores[bestLag];
+  const c = scores[bestLag + 1] ?? 0;
+  const denominator = a - 2 * b + c;
+  if (bestLag > minLag && denominator < 0) period = bestLag + 0.5 * (a - c) / denominator;
+
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let t = phase; t < flux.length; t += period) score += flux[Math.round(t)] ?? 0;
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  return { beatInterval: frameToTime(period), beatOffset: frameToTime(bestPhase) };
+};
+
+// Least-squares fit of the grid to the onsets it lands near. A period that is a fraction of a
+// frame off drifts by whole beats over a song, so this runs a few times to pull it back in.
+// A fit that strays from the estimated period is noise (or a negative slope), so the estimate stays.
+const refineGrid = (onsets: number[], grid: BeatGrid): BeatGrid => {
+  let interval = grid.beatInterval;
+  let offset = grid.beatOffset;
+  for (let pass = 0; pass < 3; pass++) {
+    const pairs: [number, number][] = [];
+    onsets.forEach(t => {
+      const k = Math.round((t - offset) / interval);
+      if (k >= 0 && Math.abs(t - (offset + k * interval)) < interval / 4) pairs.push([k, t]);
+    });
+    if (pairs.length < 8) break;
+    const n = pairs.length;
+    const meanK = pairs.reduce((acc, [k]) => acc + k, 0) / n;
+    const meanT = pairs.reduce((acc, [, t]) => acc + t, 0) / n;
+    const covariance = pairs.reduce((acc, [k, t]) => acc + (k - meanK) * (t - meanT), 0);
+    const variance = pairs.reduce((acc, [k]) => acc + (k - meanK) * (k - meanK), 0);
+    if (variance === 0) break;
+    const fitted = covariance / variance;
+    if (!(Math.abs(fitted - grid.beatInterval) < grid.beatInterval * MAX_REFINE_DRIFT)) return grid;
+    interval = fitted;
+    offset = meanT - interval * meanK;
+  }
+  return { beatInterval: interval, beatOffset: ((offset % interval) + interval) % interval };
+};
+
+export const analyzeAudio = async (buffer: AudioBuffer): Promise<AudioAnalysis> => {
+  const samples = await renderMono(buffer);
+  const flux = spectralFlux(samples);
+  const onsets = pickOnsets(flux);
+  const { beatInterval, beatOffset } = refineGrid(onsets, estimateTempo(flux));
+  return {
+    bpm: Math.round(600 / beatInterval) / 10, // For display; the grid uses the exact interval
+    beatInterval,
+    beatOffset,
+    onsets,
+    duration: buffer.duration,
+  };
+};
+
+export const getBeatTimes = (analysis: AudioAnalysis): number[] => {
+  const interval = analysis.beatInterval ?? 60 / analysis.bpm;
+  if (!(interval > 0)) return [];
+  const beats: number[] = [];
+  for (let t = analysis.beatOffset; t <= analysis.duration; t += interval) beats.push(t);
+  return beats;
+};
+
+// Nearest onset (or beat) within tolerance seconds; the time itself when nothing is close enough
+export const snapTime = (time: number, candidates: number[], tolerance: number): number => {
+  let best = time;
+  let bestDistance = tolerance;
+  for (const candidate of candidates) {
+    const distance = Math.abs(candidate - time);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
@@ -1,10 +1,11 @@
 
-import { SavedProjectData, SavedProjectSummary } from '../types';
+import { SavedProjectData, SavedProjectSummary, TranslationMemoryEntry, GlossaryEntry } from '../types';
 
 const DB_NAME = 'VibeFlowStudioDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2; // 2: translation memory
 const STORE_PROJECTS = 'projects';
 const STORE_ASSETS = 'assets';
+const STORE_TRANSLATIONS = 'translationMemory';
 
 // Asset Entry in DB
 interface AssetEntry {
@@ -13,15 +14,25 @@ interface AssetEntry {
   mimeType: string;
 }
 
-export const initDB = (): Promise<IDBDatabase> => {
+// One connection shared by every call; dropped when another tab upgrades the database
+let connection: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let isBlocked = false;
 
     request.onerror = (event) => {
       console.error("IndexedDB error:", event);
       reject("Could not open database");
     };
 
+    // A tab still open on an older version holds the upgrade back; without this the promise never settles
+    request.onblocked = () => {
+      isBlocked = true;
+      reject("Database upgrade blocked: close VibeFlow Studio in your other tabs and try again");
+    };
+
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
       if (!db.objectStoreNames.contains(STORE_PROJECTS)) {
@@ -30,14 +41,38 @@ export const initDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_ASSETS)) {
         db.createObjectStore(STORE_ASSETS, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(STORE_TRANSLATIONS)) {
+        db.createObjectStore(STORE_TRANSLATIONS, { keyPath: 'id' });
+      }
     };
 
     request.onsuccess = (event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (isBlocked) {
+        // Opened after the caller already gave up; the next call opens afresh
+        db.close();
+        return;
+      }
+      // Step aside when a newer version is opened in another tab
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+      };
+      db.onclose = () => { connection = null; };
+      resolve(db);
     };
   });
 };
 
+export const initDB = (): Promise<IDBDatabase> => {
+  if (!connection) {
+    const opening = openDB();
+    connection = opening;
+    opening.catch(() => { if (connection === opening) connection = null; }); // Retry on the next call
+  }
+  return connection;
+};
+
 export const saveProjectToDB = async (
   project: SavedProjectData, 
   audioBlob: Blob | null,
@@ -229,3 +264,95 @@ export const deleteProjectFromDB = async (projectId: string): Promise<void> => {
         transaction.onerror = () => reject(transaction.error);
     });
 };
+
+// --- Translation Memory ---
+// Earlier translations, shared by all projects, so unchanged lines never go to the model twice
+
+// Short FNV-1a hash of the glossary entries that apply to this text, so editing an unrelated
+// term keeps the cached line but changing one it contains does not
+export const getGlossaryHash = (sourceText: string, glossary: GlossaryEntry[]): string => {
+  const relevant = glossary
+    .filter(entry => entry.term.trim() && sourceText.includes(entry.term.trim()))
+    .map(entry => [entry.term.trim(), entry.rendering.trim()])
+    .sort((a, b) => a[0].localeCompare(b[0]));
+  if (relevant.length === 0) return '';
+  let hash = 0x811c9dc5;
+  for (const char of JSON.stringify(relevant)) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+export const getTranslationMemoryId = (entry: Omit<TranslationMemoryEntry, 'id' | 'translation' | 'updatedAt'>) => {
+  return JSON.stringify([entry.provider, entry.model ?? '', entry.sourceLang, entry.targetLang, entry.glossaryHash ?? '', entry.sourceText.trim()]);
+};
+
+// Source text -> cached translation, for the texts found in memory
+export const lookupTranslationMemory = async (
+  sourceTexts: string[],
+  sourceLang: string,
+  targetLang: string,
+  provider: string,
+  model: string,
+  glossary: GlossaryEntry[]
+): Promise<Map<string, string>> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_TRANSLATIONS], 'readonly');
+    const store = transaction.objectStore(STORE_TRANSLATIONS);
+    const found = new Map<string, string>();
+
+    new Set(sourceTexts).forEach(text => {
+      const request = store.get(getTranslationMemoryId({ sourceText: text, sourceLang, targetLang, provider, model, glossaryHash: getGlossaryHash(text, glossary) }));
+      request.onsuccess = () => {
+        const entry = request.result as TranslationMemoryEntry | undefined;
+        if (entry) found.set(text, entry.translation);
+      };
+    });
+
+    transaction.oncomplete = () => resolve(found);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const saveToTranslationMemory = async (
+  entries: Omit<TranslationMemoryEntry, 'id' | 'updatedAt'>[]
+): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_TRANSLATIONS], 'readwrite');
+    const store = transaction.objectStore(STORE_TRANSLATIONS);
+    const updatedAt = Date.now();
+    entries.forEach(entry => {
+      const sourceText = entry.sourceText.trim();
+      store.put({ ...entry, sourceText, id: getTranslationMemoryId({ ...entry, sourceText }), updatedAt });
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getTranslationMemory = async (): Promise<TranslationMemoryEntry[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_TRANSLATIONS], 'readonly');
+    const request = transaction.objectStore(STORE_TRANSLATIONS).getAll();
+    request.onsuccess = () => resolve((request.result as TranslationMemoryEntry[]).sort((a, b) => b.updatedAt - a.updatedAt));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// No ids = purge everything
+export const deleteFromTranslationMemory = async (ids?: string[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_TRANSLATIONS], 'readwrite');
+    const store = transaction.objectStore(STORE_TRANSLATIONS);
+    if (ids) ids.forEach(id => store.delete(id));
+    else store.clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
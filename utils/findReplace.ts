@@ -0,0 +1,122 @@
+import { LrcLine } from '../types';
+
+export type FindScope = 'all' | 'original' | 'translations';
+
+export interface FindOptions {
+  query: string;
+  caseSensitive: boolean;
+  regex: boolean;
+  wholeWord: boolean;
+  scope: FindScope;
+}
+
+// One occurrence of the search, in a line's text or in one of its translations
+export interface FindMatch {
+  lineIndex: number;
+  track: string | null; // Translation track, or null for the original text
+  start: number;
+  end: number;
+  replacement: string; // What the occurrence becomes, with $1 etc. expanded
+}
+
+// CJK is written without spaces, so only letters of other scripts count as part of a word
+const CJK = '\\p{sc=Han}\\p{sc=Hiragana}\\p{sc=Katakana}\\p{sc=Hangul}';
+const WORD_CHAR = `(?![${CJK}])[\\p{L}\\p{N}_]`;
+
+// null for an empty query. Throws a SyntaxError for an invalid regular expression.
+export const buildFindPattern = (options: FindOptions): RegExp | null => {
+  if (!options.query) return null;
+  let source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  let flags = options.caseSensitive ? 'g' : 'gi';
+  if (options.wholeWord) {
+    source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+    flags += 'u';
+  }
+  return new RegExp(source, flags);
+};
+
+const getFields = (line: LrcLine, scope: FindScope): { track: string | null; text: string }[] => {
+  const fields: { track: string | null; text: string }[] = [];
+  if (scope !== 'translations') fields.push({ track: null, text: line.text });
+  if (scope !== 'original') {
+    Object.entries(line.translations || {}).forEach(([track, text]) => fields.push({ track, text }));
+  }
+  return fields;
+};
+
+export const findInLyrics = (lines: LrcLine[], options: FindOptions, replacement: string = ''): FindMatch[] => {
+  const pattern = buildFindPattern(options);
+  if (!pattern) return [];
+  // Plain searches replace literally; only regex searches expand $1, $& ...
+  const replaceWith = options.regex ? replacement : replacement.replace(/\$/g, '$$$$');
+  // Replacing at a fixed position in the full text keeps lookarounds and anchors working
+  const atPosition = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+
+  const matches: FindMatch[] = [];
+  lines.forEach((line, lineIndex) => {
+    getFields(line, options.scope).forEach(({ track, text }) => {
+      for (const match of text.matchAll(pattern)) {
+        if (match[0] === '') continue;
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        atPosition.lastIndex = start;
+        const replaced = text.replace(atPosition, replaceWith);
+        matches.push({ lineIndex, track, start, end, replacement: replaced.slice(start, replaced.length - (text.length - end)) });
+      }
+    });
+  });
+  return matches;
+};
+
+const replaceRange = (text: string, match: FindMatch) => text.slice(0, match.start) + match.replacement + text.slice(match.end);
+
+// Edit the words the match covers so their timings survive. A match across words hands the
+// replacement out a chunk (up to the next space) per word, the last word taking the rest;
+// words left empty are dropped.
+const replaceInWords = (line: LrcLine, match: FindMatch): LrcLine['words'] => {
+  if (!line.words) return undefined;
+  const starts: number[] = [];
+  let offset = 0;
+  line.words.forEach(word => {
+    starts.push(offset);
+    offset += word.text.length;
+  });
+  const wordAt = (position: number) => starts.findIndex((s, i) => position < s + line.words![i].text.length);
+  const first = wordAt(match.start);
+  const last = match.end > match.start ? wordAt(match.end - 1) : first;
+  if (first === -1 || last === -1) return line.words;
+
+  if (first === last) {
+    const words = [...line.words];
+    const word = words[first];
+    words[first] = { ...word, text: replaceRange(word.text, { ...match, start: match.start - starts[first], end: match.end - starts[first] }) };
+    return words;
+  }
+
+  const count = last - first + 1;
+  const chunks = match.replacement.match(/\s+|\S+\s*/g) ?? [];
+  const parts = Array.from({ length: count }, (_, k) => k < count - 1 ? chunks[k] ?? '' : chunks.slice(count - 1).join(''));
+  parts[0] = line.words[first].text.slice(0, match.start - starts[first]) + parts[0];
+  parts[count - 1] += line.words[last].text.slice(match.end - starts[last]);
+
+  const replaced = parts
+    .map((text, k) => ({ ...line.words![first + k], text }))
+    .filter(word => word.text !== '');
+  const words = [...line.words.slice(0, first), ...replaced, ...line.words.slice(last + 1)];
+  return words.length > 0 ? words : undefined;
+};
+
+export const replaceMatches = (lines: LrcLine[], matches: FindMatch[]): LrcLine[] => {
+  const next = [...lines];
+  // Right to left, so the offsets of the remaining matches stay valid
+  [...matches].sort((a, b) => b.start - a.start).forEach(match => {
+    const line = next[match.lineIndex];
+    if (match.track === null) {
+      next[match.lineIndex] = { ...line, text: replaceRange(line.text, match), words: replaceInWords(line, match) };
+    } else {
+      const text = line.translations?.[match.track] ?? '';
+      next[match.lineIndex] = { ...line, translations: { ...line.translations, [match.track]: replaceRange(text, match) } };
+    }
+  });
+  return next;
+};
@@ -0,0 +1,220 @@
+import { useState, useRef, useCallback, useEffect, SetStateAction } from 'react';
+
+export interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  // Consecutive commands with the same key (slider drags, typing) collapse into one step
+  mergeKey?: string;
+}
+
+interface HistoryEntry extends HistoryCommand {
+  scope: string | null;
+  at: number;
+}
+
+export interface EditHistory {
+  push: (command: HistoryCommand) => void;
+  transact: (label: string, fn: () => void) => void;
+  undo: () => void;
+  redo: () => void;
+  undoLabel: () => string | null;
+  redoLabel: () => string | null;
+  openScope: (scope: string) => void;
+  closeScope: () => void;
+  clear: () => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface RecordOptions {
+  label?: string;
+  mergeKey?: string | null; // Defaults to the label; null never merges
+}
+
+const MERGE_WINDOW = 800; // ms between changes that still count as the same gesture
+const MAX_ENTRIES = 200;
+
+export const createEditHistory = (): EditHistory => {
+  let undoStack: HistoryEntry[] = [];
+  let redoStack: HistoryEntry[] = [];
+  let scope: string | null = null;
+  let lastPushed: HistoryEntry | null = null;
+  let batch: HistoryCommand[] | null = null;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  // While a modal editor owns a scope, only the steps made inside it can be undone
+  const top = (stack: HistoryEntry[]) => {
+    const entry = stack[stack.length - 1];
+    return entry && entry.scope === scope ? entry : null;
+  };
+
+  const push = (command: HistoryCommand) => {
+    if (batch) {
+      batch.push(command);
+      return;
+    }
+    const now = Date.now();
+    const canMerge = command.mergeKey !== undefined
+      && lastPushed !== null
+      && lastPushed === undoStack[undoStack.length - 1]
+      && lastPushed.mergeKey === command.mergeKey
+      && lastPushed.scope === scope
+      && now - lastPushed.at < MERGE_WINDOW;
+
+    if (canMerge && lastPushed) {
+      // Keep the oldest undo, take the newest redo
+      lastPushed.redo = command.redo;
+      lastPushed.at = now;
+    } else {
+      lastPushed = { ...command, scope, at: now };
+      undoStack = [...undoStack, lastPushed].slice(-MAX_ENTRIES);
+    }
+    redoStack = [];
+    notify();
+  };
+
+  return {
+    push,
+
+    // Record every change made inside fn as a single step
+    transact: (label, fn) => {
+      const outer = batch;
+      const commands: HistoryCommand[] = [];
+      batch = commands;
+      try {
+        fn();
+      } finally {
+        batch = outer;
+      }
+      if (commands.length === 0) return;
+      push({
+        label,
+        undo: () => [...commands].reverse().forEach(c => c.undo()),
+        redo: () => commands.forEach(c => c.redo()),
+      });
+    },
+
+    undo: () => {
+      const entry = top(undoStack);
+      if (!entry) return;
+      undoStack = undoStack.slice(0, -1);
+      redoStack = [...redoStack, entry];
+      lastPushed = null;
+      entry.undo();
+      notify();
+    },
+
+    redo: () => {
+      const entry = top(redoStack);
+      if (!entry) return;
+      redoStack = redoStack.slice(0, -1);
+      undoStack = [...undoStack, entry];
+      lastPushed = null;
+      entry.redo();
+      notify();
+    },
+
+    undoLabel: () => top(undoStack)?.label ?? null,
+    redoLabel: () => top(redoStack)?.label ?? null,
+
+    openScope: (name) => {
+      scope = name;
+      notify();
+    },
+
+    // A modal's own steps end with it; what it applies on save is recorded as one step outside
+    closeScope: () => {
+      if (scope === null) return;
+      const closing = scope;
+      undoStack = undoStack.filter(e => e.scope !== closing);
+      redoStack = redoStack.filter(e => e.scope !== closing);
+      scope = null;
+      lastPushed = null;
+      notify();
+    },
+
+    clear: () => {
+      undoStack = [];
+      redoStack = [];
+      lastPushed = null;
+      notify();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+// useState whose setter records an undoable step. The third value sets without recording,
+// for loads and derived state that must not become steps of their own.
+export const useHistoryState = <T,>(history: EditHistory, label: string, initial: T) => {
+  const [value, setValue] = useState<T>(initial);
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const apply = useCallback((next: T) => {
+    valueRef.current = next;
+    setValue(next);
+  }, []);
+
+  const resolve = (action: SetStateAction<T>): T => {
+    return typeof action === 'function' ? (action as (prev: T) => T)(valueRef.current) : action;
+  };
+
+  const setRecorded = useCallback((action: SetStateAction<T>, options: RecordOptions = {}) => {
+    const prev = valueRef.current;
+    const next = resolve(action);
+    if (Object.is(prev, next)) return;
+    apply(next);
+    const stepLabel = options.label ?? label;
+    history.push({
+      label: stepLabel,
+      mergeKey: options.mergeKey === null ? undefined : options.mergeKey ?? stepLabel,
+      undo: () => apply(prev),
+      redo: () => apply(next),
+    });
+  }, [history, label, apply]);
+
+  const setUnrecorded = useCallback((action: SetStateAction<T>) => {
+    apply(resolve(action));
+  }, [apply]);
+
+  return [value, setRecorded, setUnrecorded] as const;
+};
+
+// Re-render on history changes, for undo/redo buttons
+export const useHistoryStatus = (history: EditHistory) => {
+  const [, setVersion] = useState(0);
+  useEffect(() => history.subscribe(() => setVersion(v => v + 1)), [history]);
+  return { undoLabel: history.undoLabel(), redoLabel: history.redoLabel() };
+};
+
+// Text fields keep the browser's own undo while typing
+const isTextEditing = (target: EventTarget | null): boolean => {
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (target instanceof HTMLInputElement) return !['checkbox', 'radio', 'range', 'color', 'file', 'button'].includes(target.type);
+  return target instanceof HTMLElement && target.isContentEditable;
+};
+
+// Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) anywhere in the app, except inside a text field
+export const useUndoShortcuts = (history: EditHistory) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEditing(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+};
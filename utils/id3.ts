@@ -0,0 +1,224 @@
+import { LrcLine, LrcWord } from '../types';
+
+// ID3v2.3 / v2.4 tag reader for the frames the studio can use: plain and synced lyrics, the title
+// credits and the cover picture. Everything runs locally on the uploaded file.
+
+export interface Id3Picture {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface Id3Tags {
+  version: 3 | 4;
+  title?: string; // TIT2
+  artist?: string; // TPE1
+  album?: string; // TALB
+  composer?: string; // TCOM
+  lyrics?: string; // USLT
+  syncedLyrics?: LrcLine[]; // SYLT with millisecond timestamps
+  cover?: Id3Picture; // APIC, the front cover when there are several
+}
+
+const HEADER_SIZE = 10;
+const PICTURE_FRONT_COVER = 3;
+const SYLT_MILLISECONDS = 2; // The other timestamp format counts MPEG frames
+
+const readSynchsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Bytes of the whole tag including its header, or 0 when the file does not start with one
+export const getId3TagSize = (header: Uint8Array): number => {
+  if (header.length < HEADER_SIZE || header[0] !== 0x49 || header[1] !== 0x44 || header[2] !== 0x33) return 0; // "ID3"
+  const hasFooter = (header[5] & 0x10) !== 0;
+  return HEADER_SIZE + readSynchsafe(header, 6) + (hasFooter ? HEADER_SIZE : 0);
+};
+
+// Unsynchronisation inserts a 0x00 after every 0xFF so the tag never looks like an MPEG sync word
+const removeUnsynchronisation = (bytes: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    out[length++] = bytes[i];
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, length);
+};
+
+// Encoding byte: 0 Latin-1, 1 UTF-16 with BOM, 2 UTF-16BE, 3 UTF-8
+const decodeText = (bytes: Uint8Array, encoding: number): string => {
+  let label = 'iso-8859-1';
+  if (encoding === 1) label = bytes[0] === 0xFE && bytes[1] === 0xFF ? 'utf-16be' : 'utf-16le';
+  else if (encoding === 2) label = 'utf-16be';
+  else if (encoding === 3) label = 'utf-8';
+  return new TextDecoder(label).decode(bytes).replace(/\0+$/, '');
+};
+
+// End of a terminated string: one zero byte, or an aligned pair of them for the UTF-16 encodings
+const findTerminator = (bytes: Uint8Array, offset: number, encoding: number): number => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+};
+
+// Reads a terminated string and returns it with the offset just past the terminator
+const readTerminated = (bytes: Uint8Array, offset: number, encoding: number): [string, number] => {
+  const end = findTerminator(bytes, offset, encoding);
+  const width = encoding === 1 || encoding === 2 ? 2 : 1;
+  return [decodeText(bytes.subarray(offset, end), encoding), Math.min(bytes.length, end + width)];
+};
+
+const parseTextFrame = (data: Uint8Array): string => {
+  // v2.4 separates multiple values with a null
+  return decodeText(data.subarray(1), data[0]).split('\0').map(v => v.trim()).filter(Boolean).join(' / ');
+};
+
+const parseUslt = (data: Uint8Array): string => {
+  const encoding = data[0];
+  const [, textStart] = readTerminated(data, 4, encoding); // After the language code and the descriptor
+  return decodeText(data.subarray(textStart), encoding).replace(/\r\n?/g, '\n').trim();
+};
+
+// Each SYLT entry is either a whole line or, in karaoke files, a syllable; a syllable starting
+// with a line break opens a new line
+const parseSylt = (data: Uint8Array): LrcLine[] | undefined => {
+  const encoding = data[0];
+  if (data[4] !== SYLT_MILLISECONDS) return undefined;
+  let [, offset] = readTerminated(data, 6, encoding);
+
+  const entries: { time: number; text: string }[] = [];
+  while (offset < data.length) {
+    const [text, next] = readTerminated(data, offset, encoding);
+    if (next + 4 > data.length) break;
+    entries.push({ time: readUint32(data, next) / 1000, text: text.replace(/\r\n?/g, '\n') });
+    offset = next + 4;
+  }
+  if (entries.length === 0) return undefined;
+
+  const isSyllables = entries.slice(1).some(e => e.text.startsWith('\n'));
+  if (!isSyllables) {
+    return entries
+      .map(e => ({ time: e.time, text: e.text.trim() }))
+      .filter(line => line.text)
+      .sort((a, b) => a.time - b.time);
+  }
+
+  const lines: LrcLine[] = [];
+  let words: LrcWord[] = [];
+  const flush = () => {
+    const text = words.map(w => w.text).join('');
+    if (text.trim()) lines.push({ time: words[0].time, text, words: words.length > 1 ? words : undefined });
+    words = [];
+  };
+  entries.forEach(entry => {
+    if (entry.text.startsWith('\n') && words.length > 0) flush();
+    const text = entry.text.replace(/^\n+/, '');
+    if (text) words.push({ time: entry.time, text });
+  });
+  if (words.length > 0) flush();
+  return lines;
+};
+
+const parseApic = (data: Uint8Array): { picture: Id3Picture; type: number } => {
+  const encoding = data[0];
+  const [format, typeOffset] = readTerminated(data, 1, 0); // MIME type is always Latin-1
+  const [, pictureStart] = readTerminated(data, typeOffset + 1, encoding); // Skip the description
+  // Some writers put a bare format ("JPG", "PNG") where the MIME type belongs
+  const bare = format.toLowerCase().replace('jpg', 'jpeg');
+  return {
+    picture: { mimeType: format.includes('/') ? format : `image/${bare || 'jpeg'}`, data: data.slice(pictureStart) },
+    type: data[typeOffset],
+  };
+};
+
+// The tag from the start of an MP3 (at least getId3TagSize bytes of it). Null without a
+// readable ID3v2.3/2.4 tag; frames that are compressed, encrypted or malformed are skipped.
+export const parseId3 = (buffer: ArrayBuffer): Id3Tags | null => {
+  let bytes: Uint8Array = new Uint8Array(buffer);
+  const tagSize = getId3TagSize(bytes);
+  const version = bytes[3];
+  if (tagSize === 0 || (version !== 3 && version !== 4)) return null;
+
+  const flags = bytes[5];
+  bytes = bytes.subarray(HEADER_SIZE, Math.min(bytes.length, HEADER_SIZE + readSynchsafe(bytes, 6)));
+  // v2.3 unsynchronises the whole tag, v2.4 each frame on its own
+  if (version === 3 && flags & 0x80) bytes = removeUnsynchronisation(bytes);
+
+  let offset = 0;
+  if (flags & 0x40) {
+    // Extended header: v2.3 size excludes its own 4 bytes, v2.4 size is synchsafe and includes them
+    offset = version === 3 ? readUint32(bytes, 0) + 4 : readSynchsafe(bytes, 0);
+  }
+
+  const tags: Id3Tags = { version };
+  let coverType = -1;
+
+  while (offset + HEADER_SIZE <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    if (!/^[A-Z0-9]{4}$/.test(id)) break; // Padding
+    let size = version === 4 ? readSynchsafe(bytes, offset + 4) : readUint32(bytes, offset + 4);
+    // Some v2.4 writers store plain sizes; trust whichever one lands on the next frame
+    if (version === 4 && size >= 0x80) {
+      const plain = readUint32(bytes, offset + 4);
+      const landsOnFrame = (n: number) => {
+        const next = offset + HEADER_SIZE + n;
+        return next === bytes.length || (next + 4 <= bytes.length && /^([A-Z0-9]{4}|\0{4})$/.test(String.fromCharCode(...bytes.subarray(next, next + 4))));
+      };
+      if (!landsOnFrame(size) && landsOnFrame(plain)) size = plain;
+    }
+    const frameFlags = bytes[offset + 9];
+    const start = offset + HEADER_SIZE;
+    offset = start + size;
+    if (size === 0 || offset > bytes.length) continue;
+
+    let data: Uint8Array = bytes.subarray(start, offset);
+    if (version === 3) {
+      if (frameFlags & 0xC0) continue; // Compressed or encrypted
+      if (frameFlags & 0x20) data = data.subarray(1); // Group id
+    } else {
+      if (frameFlags & 0x0C) continue; // Compressed or encrypted
+      if (frameFlags & 0x40) data = data.subarray(1); // Group id
+      if (frameFlags & 0x01) data = data.subarray(4); // Data length indicator
+      if (frameFlags & 0x02) data = removeUnsynchronisation(data);
+    }
+    if (data.length < 2) continue;
+
+    try {
+      switch (id) {
+        case 'TIT2': tags.title = parseTextFrame(data) || tags.title; break;
+        case 'TPE1': tags.artist = parseTextFrame(data) || tags.artist; break;
+        case 'TALB': tags.album = parseTextFrame(data) || tags.album; break;
+        case 'TCOM': tags.composer = parseTextFrame(data) || tags.composer; break;
+        case 'USLT': tags.lyrics = tags.lyrics || parseUslt(data) || undefined; break;
+        case 'SYLT': tags.syncedLyrics = tags.syncedLyrics || parseSylt(data); break;
+        case 'APIC': {
+          const { picture, type } = parseApic(data);
+          if (picture.data.length > 0 && coverType !== PICTURE_FRONT_COVER && (coverType === -1 || type === PICTURE_FRONT_COVER)) {
+            tags.cover = picture;
+            coverType = type;
+          }
+          break;
+        }
+      }
+    } catch (e) {
+      console.warn(`Skipping unreadable ID3 frame ${id}`, e);
+    }
+  }
+
+  return tags;
+};
+
+// Reads just the tag from the start of the file
+export const readId3FromFile = async (file: File): Promise<Id3Tags | null> => {
+  const size = getId3TagSize(new Uint8Array(await file.slice(0, HEADER_SIZE).arrayBuffer()));
+  if (size === 0) return null;
+  return parseId3(await file.slice(0, size).arrayBuffer());
+};
+
+export const hasId3Content = (tags: Id3Tags | null): tags is Id3Tags => {
+  return !!tags && !!(tags.title || tags.artist || tags.album || tags.composer || tags.lyrics || tags.syncedLyrics?.length || tags.cover);
+};
@@ -0,0 +1,162 @@
+import { LrcLine, LyricStyle, AspectRatio } from '../types';
+import { getResolution, getLineEndTime, parseRuby, stripRuby, CJK_CHAR } from '../utils';
+
+export type LyricLintType = 'too_wide' | 'tight_gap' | 'too_fast';
+
+export interface LyricLintIssue {
+  type: LyricLintType;
+  lineIndex: number;
+  message: string;
+  fix?: 'split' | 'extend'; // One-click fix, when there is an obvious one
+}
+
+export interface LyricLintOptions {
+  lyricStyle: LyricStyle;
+  aspectRatio: AspectRatio;
+}
+
+// Lines starting closer together than this flash by before they can be read
+const MIN_LINE_GAP = 0.3;
+// Reading speed limit; CJK characters count double since each carries a whole syllable or word
+const MAX_CHARS_PER_SECOND = 20;
+// Keep text this far from the frame edges
+const SAFE_MARGIN = 0.05;
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+// Same font string as the renderer, so widths match what ends up in the video
+const measureText = (text: string, style: LyricStyle): number => {
+  if (!measureCtx) measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) return 0;
+  measureCtx.font = `bold ${style.fontSize}px "${style.fontFamily}", sans-serif`;
+  return measureCtx.measureText(text).width;
+};
+
+const readingWeight = (text: string): number => {
+  return text.replace(/\s/g, '').split('').reduce((acc, c) => acc + (CJK_CHAR.test(c) ? 2 : 1), 0);
+};
+
+export const lintLyrics = (lines: LrcLine[], options: LyricLintOptions): LyricLintIssue[] => {
+  const { lyricStyle, aspectRatio } = options;
+  const { width } = getResolution(aspectRatio);
+  // Text is centered on positionX, so the room is twice the distance to the nearer edge
+  const centerX = width * lyricStyle.positionX;
+  const maxWidth = 2 * Math.min(centerX, width - centerX) - width * SAFE_MARGIN * 2;
+  const issues: LyricLintIssue[] = [];
+
+  // Untimed lines (everything after the first still at 0) are skipped by the timing checks
+  const isTimed = (index: number) => index === 0 || lines[index].time > 0;
+
+  lines.forEach((line, index) => {
+    const text = stripRuby(line.text).replace(/\n/g, ' ').trim();
+    if (text === '') return;
+
+    const textWidth = measureText(text, lyricStyle);
+    if (textWidth > maxWidth) {
+      issues.push({
+        type: 'too_wide',
+        lineIndex: index,
+        message: `Line is ${Math.round(textWidth)}px wide, only ${Math.round(maxWidth)}px fit on screen`,
+        fix: findSplitPoint(line) !== null ? 'split' : undefined,
+      });
+    }
+
+    if (!isTimed(index)) return;
+
+    const nextIndex = lines.findIndex((l, i) => i > index && l.text.trim() !== '');
+    if (nextIndex !== -1 && isTimed(nextIndex)) {
+      const gap = lines[nextIndex].time - line.time;
+      if (gap >= 0 && gap < MIN_LINE_GAP) {
+        issues.push({
+          type: 'tight_gap',
+          lineIndex: index,
+          message: `Next line starts only ${Math.round(gap * 1000)}ms later`,
+        });
+      }
+    }
+
+    const duration = getLineEndTime(lines, index) - line.time;
+    const cps = duration > 0 ? readingWeight(text) / duration : Infinity;
+    if (cps > MAX_CHARS_PER_SECOND) {
+      // An early explicit end can simply run on until the next line
+      const next = lines.slice(index + 1).find(l => l.time > line.time);
+      const canExtend = line.endTime !== undefined && next !== undefined && next.time > line.endTime;
+      issues.push({
+        type: 'too_fast',
+        lineIndex: index,
+        message: `${cps === Infinity ? 'No' : cps.toFixed(1)} chars/s to read (max ${MAX_CHARS_PER_SECOND})`,
+        fix: canExtend ? 'extend' : undefined,
+      });
+    }
+  });
+
+  return issues;
+};
+
+// Character offset to break at: the word timing boundary, else the space, else (CJK) the character nearest the middle
+const findSplitPoint = (line: LrcLine): number | null => {
+  const text = line.text;
+  const middle = text.length / 2;
+  const nearest = (offsets: number[]) => offsets.length === 0
+    ? null
+    : offsets.reduce((best, o) => Math.abs(o - middle) < Math.abs(best - middle) ? o : best);
+
+  if (line.words && line.words.length > 1) {
+    let offset = 0;
+    const boundaries = line.words.slice(0, -1).map(w => (offset += w.text.length));
+    return nearest(boundaries);
+  }
+
+  // Never inside a base{reading} annotation
+  const allowed: number[] = [];
+  let offset = 0;
+  parseRuby(text).forEach(segment => {
+    if (segment.ruby === undefined) {
+      for (let i = 1; i < segment.source.length; i++) allowed.push(offset + i);
+    }
+    offset += segment.source.length;
+    allowed.push(offset);
+  });
+  const candidates = allowed.filter(o => o > 0 && o < text.length);
+
+  const spaces = candidates.filter(o => o > 1 && /\s/.test(text[o - 1]));
+  if (spaces.length > 0) return nearest(spaces);
+  return nearest(candidates);
+};
+
+// Break a line in two; the second half starts at its first word timing or proportionally through the line
+export const splitLyricLine = (lines: LrcLine[], index: number): LrcLine[] => {
+  const line = lines[index];
+  const at = findSplitPoint(line);
+  if (at === null) return lines;
+
+  const end = getLineEndTime(lines, index);
+  const firstText = line.text.slice(0, at).trimEnd();
+  const secondText = line.text.slice(at).trimStart();
+
+  // Translations stay with the first half; the second would otherwise show a duplicate
+  let first: LrcLine;
+  let second: LrcLine;
+  if (line.words && line.words.length > 1) {
+    let offset = 0;
+    const cut = line.words.findIndex(w => (offset += w.text.length) >= at) + 1;
+    // Trimmed like the texts, so each half's words still join into its text
+    const firstWords = line.words.slice(0, cut).map((w, i, all) => i === all.length - 1 ? { ...w, text: w.text.trimEnd() } : w);
+    const secondWords = line.words.slice(cut).map((w, i) => i === 0 ? { ...w, text: w.text.trimStart() } : w);
+    first = { ...line, text: firstText, words: firstWords, endTime: secondWords[0].time };
+    second = { time: secondWords[0].time, text: secondText, words: secondWords, endTime: line.endTime };
+  } else {
+    const splitTime = line.time + (end - line.time) * (at / line.text.length);
+    first = { ...line, text: firstText, words: undefined, endTime: splitTime };
+    second = { time: splitTime, text: secondText, endTime: line.endTime };
+  }
+  if (second.endTime === undefined) delete second.endTime;
+
+  return [...lines.slice(0, index), first, second, ...lines.slice(index + 1)];
+};
+
+// Let a line with an early explicit end run on until the next line starts
+export const extendLyricLine = (lines: LrcLine[], index: number): LrcLine[] => {
+  const { endTime: _endTime, ...line } = lines[index];
+  return lines.map((l, i) => i === index ? line : l);
+};
@@ -0,0 +1,634 @@
+import { BackgroundMedia, LrcLine, LyricEffect, LyricStyle, MediaType, TitleConfig, TitleLayoutMode, TransitionEffect, TranslationTrack } from '../types';
+import { buildTitleElements, getLineEndTime, parseRuby, stripRuby, sliceRuby, hasRuby } from '../utils';
+
+// One frame of the lyric video as a function of the project and the song time only. It reads no
+// React state, loads nothing and never seeks or plays media, so the preview, the export and
+// offline tooling draw exactly the same pixels for the same inputs.
+
+// The parts of the project that end up on screen
+export interface RenderProject {
+  backgrounds: Pick<BackgroundMedia, 'src' | 'type' | 'duration' | 'followsSong'>[];
+  lrcLines: LrcLine[];
+  translationTracks: TranslationTrack[];
+  lyricStyle: LyricStyle;
+  titleStyle: LyricStyle;
+  titleConfig: TitleConfig;
+  transitionEffect: TransitionEffect;
+  transitionDuration: number;
+}
+
+// Decoded media by background src: <img>/<video> elements in the browser, any canvas image
+// source in tooling. Missing or not yet loaded entries are skipped. Videos are drawn at whatever
+// frame they hold; position them with getVideoTimes first.
+export interface RenderAssets {
+  media: Map<string, CanvasImageSource>;
+}
+
+// Longest silence (seconds) across which prev/next preview lines are still shown
+const MAX_PREVIEW_GAP = 2;
+// Ruby readings are drawn at this fraction of the base font size
+const RUBY_SCALE = 0.45;
+// Playlist slot of an auto-length video whose length is not known (yet)
+const DEFAULT_VIDEO_SLOT = 10;
+const RENDER_SEED = 0x5eed;
+
+// Multi-line cue text is drawn row under row; rows leave room for readings when there are any
+const getRowStep = (text: string, style: LyricStyle) => style.fontSize * (hasRuby(text) ? 1.2 + RUBY_SCALE : 1.2);
+const getExtraRowsHeight = (text: string, style: LyricStyle) => (text.split('\n').length - 1) * getRowStep(text, style);
+
+// mulberry32: tiny, and the same sequence on every platform
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Duck-typed, so headless canvas images work as well as DOM elements
+const getMediaSize = (source: CanvasImageSource): { width: number; height: number } => {
+  if ('videoWidth' in source) return { width: source.videoWidth, height: source.videoHeight };
+  if ('naturalWidth' in source) return { width: source.naturalWidth, height: source.naturalHeight };
+  if ('displayWidth' in source) return { width: source.displayWidth, height: source.displayHeight };
+  const sized = source as { width: unknown; height: unknown };
+  return typeof sized.width === 'number' && typeof sized.height === 'number' ? { width: sized.width, height: sized.height } : { width: 0, height: 0 };
+};
+
+const getVideoDuration = (source: CanvasImageSource | undefined): number | undefined => {
+  if (!source || !('videoWidth' in source)) return undefined;
+  return Number.isFinite(source.duration) && source.duration > 0 ? source.duration : undefined;
+};
+
+// Scaled to cover the whole frame, centred
+const drawScaledMedia = (ctx: CanvasRenderingContext2D, media: CanvasImageSource, cw: number, ch: number, scaleFactor: number = 1, opacity: number = 1) => {
+  const { width: mw, height: mh } = getMediaSize(media);
+  if (mw === 0 || mh === 0) return; // Not loaded
+
+  ctx.globalAlpha = opacity;
+  const ratio = Math.max(cw / mw, ch / mh) * scaleFactor;
+  const dw = mw * ratio;
+  const dh = mh * ratio;
+  ctx.drawImage(media, (cw - dw) / 2, (ch - dh) / 2, dw, dh);
+  ctx.globalAlpha = 1.0;
+};
+
+interface PlaylistSlot {
+  media: RenderProject['backgrounds'][number];
+  start: number; // Within one cycle of the playlist loop
+  end: number;
+}
+
+// What the background shows at a time: the current slot and, during a transition, the next one
+interface BackgroundState {
+  current: PlaylistSlot;
+  currentMediaTime: number; // Position inside a video
+  next: PlaylistSlot | null;
+  nextMediaTime: number;
+  progress: number; // Of the transition, 0 to 1
+}
+
+// Music video of the song: drawn under the playlist at the song's time, outside its slots, and
+// holding its last frame once it ends
+const getSongVideo = (project: RenderProject, time: number, assets: RenderAssets) => {
+  const media = project.backgrounds.find(bg => bg.type === MediaType.VIDEO && bg.followsSong);
+  if (!media) return null;
+  const sourceDuration = getVideoDuration(assets.media.get(media.src));
+  return { media, mediaTime: Math.min(time, Math.max(0, (sourceDuration ?? Infinity) - 0.05)) };
+};
+
+const getBackgroundState = (project: RenderProject, time: number, assets: RenderAssets): BackgroundState | null => {
+  const { transitionEffect, transitionDuration } = project;
+  const backgrounds = project.backgrounds.filter(bg => !(bg.type === MediaType.VIDEO && bg.followsSong));
+  if (backgrounds.length === 0) return null;
+
+  // Build playlist timeline
+  let cycle = 0;
+  const slots: PlaylistSlot[] = backgrounds.map(media => {
+    let duration = media.duration;
+    if (media.type === MediaType.VIDEO && duration === 0) {
+      duration = getVideoDuration(assets.media.get(media.src)) ?? DEFAULT_VIDEO_SLOT;
+    }
+    const start = cycle;
+    cycle += duration;
+    return { media, start, end: cycle };
+  });
+  if (cycle <= 0) return null;
+
+  const loopTime = time % cycle;
+  const currentIndex = slots.findIndex(slot => loopTime >= slot.start && loopTime < slot.end);
+  if (currentIndex === -1) return null;
+  const current = slots[currentIndex];
+  const timeRemaining = current.end - loopTime;
+
+  const mediaTime = (slot: PlaylistSlot, slotTime: number) => {
+    if (slot.media.type !== MediaType.VIDEO) return 0;
+    const sourceDuration = getVideoDuration(assets.media.get(slot.media.src));
+    return slotTime % (sourceDuration ?? 1);
+  };
+
+  const inTransition = timeRemaining <= transitionDuration && backgrounds.length > 1 && transitionEffect !== TransitionEffect.NONE;
+  const next = inTransition ? slots[(currentIndex + 1) % slots.length] : null;
+  return {
+    current,
+    currentMediaTime: mediaTime(current, loopTime - current.start),
+    next,
+    // The incoming item starts from its beginning as the transition starts
+    nextMediaTime: next ? mediaTime(next, transitionDuration - timeRemaining) : 0,
+    progress: inTransition ? 1 - (timeRemaining / transitionDuration) : 0,
+  };
+};
+
+// Where each visible video should be at this time (by src). The caller seeks its video elements
+// (or decodes those frames) before calling renderFrame.
+export const getVideoTimes = (project: RenderProject, time: number, assets: RenderAssets): Map<string, number> => {
+  const times = new Map<string, number>();
+  const songVideo = getSongVideo(project, time, assets);
+  if (songVideo) times.set(songVideo.media.src, songVideo.mediaTime);
+  const state = getBackgroundState(project, time, assets);
+  if (!state) return times;
+  if (state.next?.media.type === MediaType.VIDEO) times.set(state.next.media.src, state.nextMediaTime);
+  // One element cannot show two frames; a slot duplicated back to back follows the current one
+  if (state.current.media.type === MediaType.VIDEO) times.set(state.current.media.src, state.currentMediaTime);
+  return times;
+};
+
+export const renderFrame = (ctx: CanvasRenderingContext2D, project: RenderProject, time: number, assets: RenderAssets) => {
+  const { width, height } = ctx.canvas;
+  const { lrcLines, translationTracks, lyricStyle, titleStyle, titleConfig, transitionEffect } = project;
+  // Seeded by the time: the shake looks random, yet every render of this frame is identical
+  const random = createRng(RENDER_SEED ^ Math.round(time * 1000));
+
+  // Nothing carries over from whatever was drawn before
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.filter = 'none';
+
+  // 1. Clear
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  // 2. Backgrounds & Transitions, over the song's own video if there is one
+  const songVideo = getSongVideo(project, time, assets);
+  const songVideoMedia = songVideo && assets.media.get(songVideo.media.src);
+  if (songVideoMedia) drawScaledMedia(ctx, songVideoMedia, width, height);
+
+  const background = getBackgroundState(project, time, assets);
+  if (background) {
+    const { current, next, progress } = background;
+
+    const renderItem = (slot: PlaylistSlot, alpha: number = 1, scale: number = 1, shake: boolean = false) => {
+      const media = assets.media.get(slot.media.src);
+      if (!media) return;
+      ctx.save();
+      if (shake) {
+        const shakeAmount = 20 * alpha; // Shake intensity
+        ctx.translate((random() - 0.5) * shakeAmount, (random() - 0.5) * shakeAmount);
+      }
+      drawScaledMedia(ctx, media, width, height, scale, alpha);
+      ctx.restore();
+    };
+
+    if (!next) {
+      renderItem(current);
+    } else if (transitionEffect === TransitionEffect.CROSSFADE) {
+      renderItem(current, 1); // Base
+      renderItem(next, progress); // Overlay
+    } else if (transitionEffect === TransitionEffect.FLASH_BLACK) {
+      // 0 - 0.5: Fade out Current to Black
+      // 0.5 - 1: Fade in Next from Black
+      if (progress < 0.5) {
+        renderItem(current, 1 - (progress * 2));
+      } else {
+        renderItem(next, (progress - 0.5) * 2);
+      }
+    } else if (transitionEffect === TransitionEffect.ZOOM_OUT) {
+      // Current zooms out and fades, Next fades in normally
+      renderItem(current, 1 - progress, 1 + (progress * 0.2));
+      renderItem(next, progress);
+    } else if (transitionEffect === TransitionEffect.SHAKE) {
+      renderItem(current, 1, 1, true);
+      ctx.globalCompositeOperation = 'lighter';
+      renderItem(next, progress, 1, true);
+      ctx.globalCompositeOperation = 'source-over';
+    }
+  }
+
+  // Common overlay helper
+  const drawOverlay = (opacity: number) => {
+      if (opacity > 0) {
+          ctx.fillStyle = `rgba(0,0,0,${opacity})`;
+          ctx.fillRect(0,0, width, height);
+      }
+  };
+  
+  // Determine active stage
+  const isTitleActive = titleConfig.enabled && time < titleConfig.duration;
+  
+  if (isTitleActive) {
+      drawOverlay(titleStyle.bgOverlayOpacity);
+  } else {
+      drawOverlay(lyricStyle.bgOverlayOpacity);
+  }
+
+
+  // -- Helper for text drawing with Effects --
+  const drawTextWithEffects = (
+      text: string, 
+      tx: number, 
+      ty: number, 
+      style: LyricStyle,
+      color: string, 
+      opacity: number = 1, 
+      scale: number = 1, 
+      blurAmount: number = 0,
+      isVertical: boolean = false
+  ) => {
+      ctx.save();
+      ctx.translate(tx, ty);
+      ctx.scale(scale, scale);
+      ctx.globalAlpha = opacity;
+      
+      if (blurAmount > 0) {
+          ctx.filter = `blur(${blurAmount}px)`;
+      }
+
+      ctx.font = `bold ${style.fontSize}px "${style.fontFamily}", sans-serif`;
+
+      // base{reading} markup: the base text is drawn as usual, readings go centred above it.
+      // Rows of multi-line text go downwards from ty.
+      const segments = parseRuby(text);
+      const rows = text.split('\n').map(row => {
+          const rowSegments = parseRuby(row);
+          return { segments: rowSegments, baseText: rowSegments.map(s => s.text).join(''), hasRuby: rowSegments.some(s => s.ruby !== undefined) };
+      });
+      const rowStep = getRowStep(text, style);
+
+      const drawRuby = (row: typeof rows[number], rowY: number) => {
+          const baseFont = ctx.font;
+          const align = ctx.textAlign;
+          const rubySize = style.fontSize * RUBY_SCALE;
+          const totalWidth = ctx.measureText(row.baseText).width;
+          const startX = align === 'center' ? -totalWidth / 2 : (align === 'right' || align === 'end') ? -totalWidth : 0;
+          const rubyY = rowY - (style.fontSize * 0.5 + rubySize * 0.6);
+          let prefix = '';
+          row.segments.forEach(segment => {
+              const left = ctx.measureText(prefix).width;
+              prefix += segment.text;
+              if (segment.ruby === undefined) return;
+              const right = ctx.measureText(prefix).width;
+              ctx.font = `bold ${rubySize}px "${style.fontFamily}", sans-serif`;
+              ctx.textAlign = 'center';
+              ctx.fillText(segment.ruby, startX + (left + right) / 2, rubyY);
+              ctx.font = baseFont;
+              ctx.textAlign = align;
+          });
+      };
+
+      // Pre-configure Shadow/Glow
+      ctx.shadowColor = style.shadowColor;
+      ctx.shadowBlur = style.shadowBlur;
+
+      const drawPass = (fillColor: string, extraGlow: boolean) => {
+           ctx.fillStyle = fillColor;
+           if (extraGlow && style.glowBlur > 0) {
+               ctx.shadowColor = style.glowColor;
+               ctx.shadowBlur = style.glowBlur;
+               ctx.fillStyle = style.glowColor;
+           }
+
+           if (isVertical) {
+               const step = style.fontSize * 1.1; // Line height
+               const rubySize = style.fontSize * RUBY_SCALE;
+               const rubyStep = rubySize * 1.1;
+               const baseFont = ctx.font;
+               let currentY = 0;
+               // Center horizontally relative to the tx line
+               ctx.textAlign = 'center';
+               ctx.textBaseline = 'middle';
+
+               // Array.from keeps surrogate pairs together. Readings run down the right of their
+               // base characters, centred on them.
+               segments.forEach(segment => {
+                   const chars = Array.from(segment.text);
+                   const segmentStart = currentY;
+                   chars.forEach(char => {
+                       // Check for ASCII/Rotated characters vs CJK
+                       // Simple check: if ASCII, maybe rotate? Standard CJK is upright.
+                       // For simplicity, we draw all upright centered.
+                       ctx.fillText(char, 0, currentY);
+                       currentY += step;
+                   });
+                   if (segment.ruby === undefined || chars.length === 0) return;
+                   const rubyChars = Array.from(segment.ruby);
+                   const center = segmentStart + (chars.length - 1) * step / 2;
+                   ctx.font = `bold ${rubySize}px "${style.fontFamily}", sans-serif`;
+                   rubyChars.forEach((char, i) => {
+                       ctx.fillText(char, style.fontSize * 0.5 + rubySize * 0.6, center + (i - (rubyChars.length - 1) / 2) * rubyStep);
+                   });
+                   ctx.font = baseFont;
+               });
+           } else {
+               rows.forEach((row, i) => {
+                   ctx.fillText(row.baseText, 0, i * rowStep);
+                   if (row.hasRuby) drawRuby(row, i * rowStep);
+               });
+           }
+      };
+
+      // Pass 1: Optional Extra Glow (if configured)
+      if (style.glowBlur > 0) {
+          drawPass(style.glowColor, true);
+      }
+
+      // Pass 2: Main Text
+      // Reset shadow for main text if it was changed for glow
+      ctx.shadowColor = style.shadowColor;
+      ctx.shadowBlur = style.shadowBlur;
+      drawPass(color, false);
+
+      ctx.restore();
+  };
+
+  // 4. Draw Title / Credits
+  if (isTitleActive) {
+      
+      // --- Calculate Title Elements ---
+      const elements = buildTitleElements(titleConfig);
+
+      // --- Render Based on Layout ---
+      const cx = width * titleStyle.positionX;
+      const cy = height * titleStyle.positionY;
+
+      // Common Exit Logic
+      const exitDuration = 1.0;
+      const timeRemaining = titleConfig.duration - time;
+      let globalExitAlpha = 1;
+      if (timeRemaining < exitDuration) {
+          globalExitAlpha = Math.max(0, timeRemaining / exitDuration);
+      }
+
+      elements.forEach((el, index) => {
+           // Calculate Local Time for Animation
+           const elLocalTime = time - el.delay;
+           if (elLocalTime < 0) return; // Not started yet
+
+           // Animation Progress (0 to 1 for entry)
+           const entryDuration = 1.0;
+           const progress = Math.min(1, elLocalTime / entryDuration);
+           const ease = 1 - Math.pow(1 - progress, 3); // cubic ease out
+
+           const currentFontSize = titleStyle.fontSize * el.fontSizeMult;
+           const effectiveStyle = { ...titleStyle, fontSize: currentFontSize };
+
+           // --- Calculate Position ---
+           let x = cx;
+           let y = cy;
+
+           if (titleConfig.layoutMode === TitleLayoutMode.CENTERED) {
+               ctx.textAlign = 'center';
+               ctx.textBaseline = 'middle';
+               // Simple vertical stacking
+               // Calculate offset based on index and font sizes approximately
+               // This is a rough estimation, for perfect layout we'd measure.
+               const totalHeightEstimate = elements.reduce((acc, e) => acc + (titleStyle.fontSize * e.fontSizeMult * 1.5), 0);
+               const startY = cy - (totalHeightEstimate / 2);
+               
+               let yOffset = 0;
+               for(let i=0; i<index; i++) {
+                   yOffset += titleStyle.fontSize * elements[i].fontSizeMult * 1.5;
+               }
+               y = startY + yOffset + (titleStyle.fontSize * el.fontSizeMult / 2); // Center of line
+
+           } else if (titleConfig.layoutMode === TitleLayoutMode.VERTICAL_RIGHT) {
+               // Right to left stacking
+               const totalWidthEstimate = elements.reduce((acc, e) => acc + (titleStyle.fontSize * e.fontSizeMult * 1.5), 0);
+               const startX = cx + (totalWidthEstimate / 2);
+
+               let xOffset = 0;
+               for(let i=0; i<index; i++) {
+                   xOffset += titleStyle.fontSize * elements[i].fontSizeMult * 1.5;
+               }
+               x = startX - xOffset - (titleStyle.fontSize * el.fontSizeMult / 2);
+               y = cy - (currentFontSize * stripRuby(el.text).length * 1.1 / 2);
+
+           } else if (titleConfig.layoutMode === TitleLayoutMode.CINEMATIC) {
+               // Title Huge Center, Subtitle below, Credits at bottom spread
+               ctx.textAlign = 'center';
+               ctx.textBaseline = 'middle';
+
+               if (el.type === 'title') {
+                   y = cy - 40;
+               } else if (el.type === 'subtitle') {
+                   y = cy + currentFontSize;
+               } else {
+                   // Push credits to bottom
+                   y = height * 0.85 + (index - 2) * currentFontSize * 1.5;
+               }
+           }
+
+           // --- Apply Effects ---
+           let text = el.text;
+           let alpha = globalExitAlpha;
+           let scale = 1;
+           let yAnimOffset = 0;
+
+           if (titleStyle.animationEffect === LyricEffect.FADE_UP) {
+               alpha *= ease;
+               yAnimOffset = (1 - ease) * 50;
+               if (titleConfig.layoutMode === TitleLayoutMode.VERTICAL_RIGHT) {
+                    yAnimOffset = 0; // Don't slide vertical text up, maybe slide opacity only or slide left?
+                    // Let's slide left for vertical
+                    x += (1-ease) * 30;
+               } else {
+                   y += yAnimOffset;
+               }
+           } else if (titleStyle.animationEffect === LyricEffect.TYPEWRITER) {
+               // Typewriter Logic
+               const charCount = Array.from(stripRuby(el.text)).length;
+               const typeDuration = 1.5; 
+               const visibleChars = Math.floor(charCount * Math.min(1, elLocalTime / typeDuration));
+               text = sliceRuby(el.text, visibleChars);
+           } else if (titleStyle.animationEffect === LyricEffect.SCATTER) {
+               // Entrance scatter? Or simple fade
+               alpha *= ease;
+               scale = 0.5 + ease * 0.5;
+           } else {
+               alpha *= ease;
+           }
+
+           drawTextWithEffects(
+               text, 
+               x, 
+               y, 
+               effectiveStyle, 
+               titleStyle.activeColor, 
+               alpha, 
+               scale, 
+               0, 
+               titleConfig.layoutMode === TitleLayoutMode.VERTICAL_RIGHT
+           );
+      });
+
+  } 
+  // 5. Draw Lyrics
+  else if (lrcLines.length > 0) {
+    // A line with an explicit end time leaves the screen at that time (instrumental gap)
+    const activeIndex = lrcLines.findIndex((line, i) => {
+      if (time < line.time) return false;
+      if (line.endTime !== undefined && line.endTime > line.time) return time < line.endTime;
+      const nextLine = lrcLines[i + 1];
+      if (!nextLine) return true;
+      return time < nextLine.time;
+    });
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const x = width * lyricStyle.positionX;
+    const baseY = height * lyricStyle.positionY;
+
+    // -- Draw Active Line --
+    if (activeIndex !== -1) {
+        const line = lrcLines[activeIndex];
+        const lineEndTime = getLineEndTime(lrcLines, activeIndex);
+        const duration = lineEndTime - line.time;
+        const progress = Math.max(0, Math.min(1, (time - line.time) / duration));
+        // The last row sits on baseY, so translations and the preview keep their places
+        const lineY = baseY - getExtraRowsHeight(line.text, lyricStyle);
+
+        // Effect Logic
+        if (lyricStyle.animationEffect === LyricEffect.FADE_UP) {
+            const entryDuration = 0.5; // seconds
+            const entryProgress = Math.min(1, (time - line.time) / entryDuration);
+            const ease = 1 - Math.pow(1 - entryProgress, 3); // easeOutCubic
+            
+            const yOffset = (1 - ease) * 30; // Slide up 30px
+            const opacity = ease;
+            drawTextWithEffects(line.text, x, lineY + yOffset, lyricStyle, lyricStyle.activeColor, opacity);
+
+        } else if (lyricStyle.animationEffect === LyricEffect.TYPEWRITER) {
+            const charCount = Array.from(stripRuby(line.text)).length;
+            const typeDuration = Math.min(duration * 0.8, 2); 
+            const visibleChars = Math.floor(charCount * Math.min(1, (time - line.time) / typeDuration));
+            const textToShow = sliceRuby(line.text, visibleChars);
+            drawTextWithEffects(textToShow, x, lineY, lyricStyle, lyricStyle.activeColor);
+
+        } else if (lyricStyle.animationEffect === LyricEffect.KARAOKE) {
+            // 1. Draw Inactive base
+            drawTextWithEffects(line.text, x, lineY, lyricStyle, lyricStyle.fontColor);
+            
+            // 2. Draw Active Overlay with Clip
+            ctx.save();
+            ctx.beginPath();
+            ctx.font = `bold ${lyricStyle.fontSize}px "${lyricStyle.fontFamily}", sans-serif`;
+            const textWidth = ctx.measureText(stripRuby(line.text)).width;
+
+            let clipWidth = textWidth * progress;
+            if (line.words && line.words.length > 0) {
+                // Word-level timing: wipe each word over its own time slot
+                const words = line.words;
+                const wordIndex = words.reduce((found, w, i) => time >= w.time ? i : found, -1);
+                if (wordIndex === -1) {
+                    clipWidth = 0;
+                } else {
+                    const word = words[wordIndex];
+                    const wordEnd = words[wordIndex + 1]?.time ?? word.endTime ?? lineEndTime;
+                    const wordProgress = Math.max(0, Math.min(1, (time - word.time) / Math.max(0.01, wordEnd - word.time)));
+                    const prefixWidth = ctx.measureText(stripRuby(words.slice(0, wordIndex).map(w => w.text).join(''))).width;
+                    const wordWidth = ctx.measureText(stripRuby(word.text).trimEnd()).width;
+                    clipWidth = prefixWidth + wordWidth * wordProgress;
+                }
+            }
+            // Tall enough for ruby readings, which wipe together with their base. The wipe runs
+            // through the rows in turn; the measured width counts each line break as a space.
+            const rubyRoom = lyricStyle.fontSize * RUBY_SCALE;
+            const rowStep = getRowStep(line.text, lyricStyle);
+            const breakWidth = ctx.measureText(' ').width;
+            let remaining = clipWidth;
+            stripRuby(line.text).split('\n').forEach((row, i) => {
+                const rowWidth = ctx.measureText(row).width;
+                const rowY = lineY + i * rowStep;
+                ctx.rect(x - rowWidth / 2, rowY - lyricStyle.fontSize - rubyRoom, Math.max(0, Math.min(rowWidth, remaining)), lyricStyle.fontSize * 2 + rubyRoom);
+                remaining -= rowWidth + breakWidth;
+            });
+            ctx.clip();
+            
+            drawTextWithEffects(line.text, x, lineY, lyricStyle, lyricStyle.activeColor);
+            ctx.restore();
+
+        } else if (lyricStyle.animationEffect === LyricEffect.BREATHING) {
+            const pulse = (Math.sin(time * 3) + 1) / 2; // 0 to 1
+            const scale = 1 + (pulse * 0.05); // 1.0 to 1.05
+            const styleCopy = {...lyricStyle};
+            styleCopy.glowBlur = lyricStyle.glowBlur + (pulse * 10);
+            drawTextWithEffects(line.text, x, lineY, styleCopy, lyricStyle.activeColor, 1, scale);
+
+        } else if (lyricStyle.animationEffect === LyricEffect.SCATTER) {
+            const scatterStart = 0.8;
+            if (progress < scatterStart) {
+                 drawTextWithEffects(line.text, x, lineY, lyricStyle, lyricStyle.activeColor);
+            } else {
+                 const scatterProgress = (progress - scatterStart) / (1 - scatterStart);
+                 const scale = 1 + scatterProgress * 2;
+                 const opacity = 1 - scatterProgress;
+                 const blur = scatterProgress * 10;
+                 drawTextWithEffects(line.text, x, lineY, lyricStyle, lyricStyle.activeColor, opacity, scale, blur);
+            }
+
+        } else {
+            drawTextWithEffects(line.text, x, lineY, lyricStyle, lyricStyle.activeColor);
+        }
+
+        // Draw translation tracks stacked under the original
+        let translationBottom = baseY + lyricStyle.fontSize * 0.5;
+        translationTracks.forEach(track => {
+            const translated = line.translations?.[track.name];
+            if (!track.visible || !translated) return;
+            const trackStyle = {...lyricStyle, fontSize: track.fontSize };
+            let trackOpacity = 1;
+            if (lyricStyle.animationEffect === LyricEffect.FADE_UP) {
+                trackOpacity = Math.min(1, (time - line.time) / 0.5);
+            }
+            const trackY = translationBottom + track.fontSize * 0.7;
+            drawTextWithEffects(translated, x, trackY, trackStyle, track.color, trackOpacity);
+            translationBottom = trackY + getExtraRowsHeight(translated, trackStyle) + track.fontSize * 0.5;
+        });
+
+        // Draw next line (preview), unless an instrumental gap follows
+        const nextLine = lrcLines[activeIndex + 1];
+        if (nextLine && nextLine.time - lineEndTime <= MAX_PREVIEW_GAP) {
+            const previewStyle = {...lyricStyle, fontSize: lyricStyle.fontSize * 0.7 };
+            const previewY = Math.max(baseY + lyricStyle.fontSize * 1.5, translationBottom + previewStyle.fontSize);
+            drawTextWithEffects(nextLine.text, x, previewY, previewStyle, lyricStyle.fontColor);
+        }
+        
+         // Draw prev line, unless it ended before a gap
+        const prevLine = lrcLines[activeIndex - 1];
+        if (prevLine && line.time - getLineEndTime(lrcLines, activeIndex - 1) <= MAX_PREVIEW_GAP) {
+            const prevStyle = {...lyricStyle, fontSize: lyricStyle.fontSize * 0.7 };
+            drawTextWithEffects(prevLine.text, x, lineY - lyricStyle.fontSize * 1.5 - getExtraRowsHeight(prevLine.text, prevStyle), prevStyle, lyricStyle.fontColor);
+        }
+
+    } else {
+      // No active line found (intro)
+      if (lrcLines.length > 0 && time < lrcLines[0].time) {
+           const previewStyle = {...lyricStyle, fontSize: lyricStyle.fontSize * 0.8 };
+           drawTextWithEffects(lrcLines[0].text, x, baseY + lyricStyle.fontSize * 1.5, previewStyle, lyricStyle.fontColor);
+           drawTextWithEffects("...", x, baseY, lyricStyle, lyricStyle.fontColor);
+      } else {
+           // Instrumental gap: stay clear, announce the upcoming line shortly before it starts
+           const upcoming = lrcLines.find(l => l.time > time);
+           if (upcoming && upcoming.time - time <= MAX_PREVIEW_GAP) {
+               const previewStyle = {...lyricStyle, fontSize: lyricStyle.fontSize * 0.7 };
+               drawTextWithEffects(upcoming.text, x, baseY + lyricStyle.fontSize * 1.5, previewStyle, lyricStyle.fontColor);
+           }
+      }
+    }
+  }
+
+  ctx.restore();
+};
@@ -0,0 +1,162 @@
+import { LrcLine, LrcDocument, LrcDiagnostic } from '../types';
+import { parseLrc, getLineEndTime, parseRuby, stripRuby, LrcParseOptions, DEFAULT_TRANSLATION_TRACK } from '../utils';
+
+export type LyricFileFormat = 'lrc' | 'srt' | 'vtt';
+
+// Accepts hh:mm:ss,mmm / hh:mm:ss.mmm / mm:ss.mmm
+const parseCueTime = (value: string): number | null => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  return hours * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10) + parseInt(match[4].padEnd(3, '0'), 10) / 1000;
+};
+
+const formatCueTime = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+};
+
+// WebVTT ruby, kept as base{reading} markup. The | pins the base when text runs straight into it.
+const VTT_RUBY = /<ruby>([^<]*)<rt>([^<]*)(?:<\/rt>)?<\/ruby>/g;
+
+// Written by generateVtt when translations are exported; their rows are then <v Track> voice spans
+const BILINGUAL_NOTE = 'NOTE VibeFlow bilingual';
+const VOICE_TAG = /^<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+
+// Our own bilingual WebVTT, whose translation rows can be told apart from wrapped lyric rows
+export const isBilingualVtt = (content: string): boolean => {
+  return content.split(/\r\n|\r|\n/).some(row => row.trim() === BILINGUAL_NOTE);
+};
+
+// Strip inline markup (<i>, <v Singer>, <00:01.000>, {\an8}) from cue text
+const stripCueMarkup = (text: string): string => {
+  return text
+    .replace(VTT_RUBY, (_, base: string, reading: string, offset: number) => `${offset > 0 && !/\s/.test(text[offset - 1]) ? '|' : ''}${base}{${reading}}`)
+    .replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').trim();
+};
+
+// Shared block parser for SRT and WebVTT: each block is [id]\n start --> end [settings]\n text...
+const parseCueBlocks = (content: string, options: LrcParseOptions = {}): LrcDocument => {
+  const rows = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const isBilingual = isBilingualVtt(content);
+  const result: LrcLine[] = [];
+  const diagnostics: LrcDiagnostic[] = [];
+  let lastStart = -1;
+
+  // Group rows into blank-line separated blocks, remembering where each starts
+  const blocks: { lineNumber: number; rows: string[] }[] = [];
+  rows.forEach((row, i) => {
+    if (row.trim() === '') return;
+    const current = blocks[blocks.length - 1];
+    if (current && i > 0 && rows[i - 1].trim() !== '') current.rows.push(row);
+    else blocks.push({ lineNumber: i + 1, rows: [row] });
+  });
+
+  blocks.forEach(block => {
+    const timingIndex = block.rows.findIndex(row => row.includes('-->'));
+    if (timingIndex === -1) return; // Header, NOTE, STYLE or cue-less block
+    const lineNumber = block.lineNumber + timingIndex;
+
+    const [startRaw, rest] = block.rows[timingIndex].split('-->');
+    const endRaw = rest.trim().split(/\s+/)[0]; // Drop VTT cue settings
+    const time = parseCueTime(startRaw);
+    const endTime = parseCueTime(endRaw);
+    if (time === null) {
+      diagnostics.push({ type: 'skipped', lineNumber, message: `Unreadable cue timing: "${block.rows[timingIndex].trim()}"` });
+      return;
+    }
+    if (time < lastStart) {
+      diagnostics.push({ type: 'out_of_order', lineNumber, message: 'Cue starts before the previous cue' });
+    }
+    lastStart = Math.max(lastStart, time);
+    if (options.duration && time > options.duration) {
+      diagnostics.push({ type: 'past_duration', lineNumber, message: 'Cue starts after the end of the audio' });
+    }
+
+    // Multi-line cues keep their line breaks. Rows become translations only when the file says so:
+    // our voice-tagged WebVTT, or the caller's choice for other bilingual captions.
+    const lyricRows: string[] = [];
+    const translations: Record<string, string> = {};
+    const addTranslation = (track: string, row: string) => {
+      translations[track] = translations[track] ? `${translations[track]}\n${row}` : row;
+    };
+    block.rows.slice(timingIndex + 1).forEach(raw => {
+      const row = stripCueMarkup(raw);
+      if (row === '') return;
+      const voice = isBilingual ? VOICE_TAG.exec(raw.trim()) : null;
+      if (voice) addTranslation(voice[1].trim(), row);
+      else if (!isBilingual && options.cueRowsAsTranslations && lyricRows.length > 0) {
+        const n = Object.keys(translations).length + 1;
+        addTranslation(n === 1 ? DEFAULT_TRANSLATION_TRACK : `${DEFAULT_TRANSLATION_TRACK} ${n}`, row);
+      } else lyricRows.push(row);
+    });
+    const line: LrcLine = { time, text: lyricRows.join('\n') };
+    if (endTime !== null && endTime > time) line.endTime = endTime;
+    if (Object.keys(translations).length > 0) line.translations = translations;
+    result.push(line);
+  });
+
+  return { lines: result.sort((a, b) => a.time - b.time), tags: {}, diagnostics };
+};
+
+export const parseSrt = (content: string, options?: LrcParseOptions): LrcDocument => parseCueBlocks(content, options);
+
+export const parseVtt = (content: string, options?: LrcParseOptions): LrcDocument => parseCueBlocks(content, options);
+
+// Empty lines are gaps in the LRC model and produce no cue; translations become extra cue lines
+const toCues = (lines: LrcLine[], formatText: (text: string) => string, formatTranslation: (track: string, row: string) => string = (_, row) => formatText(row)) => {
+  return lines
+    .filter(line => line.text.trim() !== '')
+    .map(line => {
+      const translations = Object.entries(line.translations || {})
+        .filter(([, t]) => t.trim() !== '')
+        .flatMap(([track, t]) => t.trim().split('\n').map(row => formatTranslation(track, row)));
+      return {
+        start: line.time,
+        end: getLineEndTime(lines, lines.indexOf(line)),
+        text: [formatText(line.text.trim()), ...translations].join('\n'),
+        hasTranslations: translations.length > 0,
+      };
+    });
+};
+
+// WebVTT has ruby markup of its own; SRT only gets the base text
+const toVttRuby = (text: string): string => {
+  return parseRuby(text).map(s => s.ruby !== undefined ? `<ruby>${s.text}<rt>${s.ruby}</rt></ruby>` : s.text).join('');
+};
+
+export const generateSrt = (lines: LrcLine[]): string => {
+  return toCues(lines, stripRuby)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}`)
+    .join('\n\n') + '\n';
+};
+
+// Translation rows are voice spans named after their track, so an import can fold them back
+export const generateVtt = (lines: LrcLine[]): string => {
+  const cues = toCues(lines, toVttRuby, (track, row) => `<v ${track.replace(/>/g, '')}>${toVttRuby(row)}`);
+  const header = cues.some(cue => cue.hasTranslations) ? ['WEBVTT', BILINGUAL_NOTE] : ['WEBVTT'];
+  return [...header, ...cues.map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}`)].join('\n\n') + '\n';
+};
+
+export const detectLyricFormat = (content: string, fileName?: string): LyricFileFormat => {
+  const ext = fileName?.split('.').pop()?.toLowerCase();
+  if (ext === 'srt' || ext === 'vtt' || ext === 'lrc') return ext;
+
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/\d{2}:\d{2}:\d{2},\d{3}\s*-->/.test(content)) return 'srt';
+  return 'lrc';
+};
+
+// Entry point for every lyric import: picks the parser by extension or content
+export const parseLyricFile = (content: string, fileName?: string, options?: LrcParseOptions): LrcDocument => {
+  switch (detectLyricFormat(content, fileName)) {
+    case 'srt': return parseSrt(content, options);
+    case 'vtt': return parseVtt(content, options);
+    case 'lrc': default: return parseLrc(content, options);
+  }
+};
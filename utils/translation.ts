@@ -0,0 +1,271 @@
+import { GoogleGenAI } from "@google/genai";
+import { GlossaryEntry } from '../types';
+
+// Lyric translation behind interchangeable model providers. Providers only turn a prompt into
+// raw text; the prompt, the JSON parsing and matching answers back to lines by id are shared.
+
+export type TranslationProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface TranslationSettings {
+  provider: TranslationProviderId;
+  model: string;
+  endpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+  apiKey: string; // Optional; Gemini falls back to the build-time key
+}
+
+// A lyric line sent for translation; the id comes back with its translation
+export interface TranslationItem {
+  id: number;
+  text: string;
+}
+
+export interface TranslationRequest {
+  items: TranslationItem[];
+  sourceLang: string; // 'Auto Detect' to let the model work it out
+  targetLang: string;
+  glossary?: GlossaryEntry[];
+  instructions?: string; // Extra wishes for this run, e.g. "more casual"
+}
+
+export interface TranslationProvider {
+  label: string;
+  defaultModel: string;
+  complete: (prompt: string, request: TranslationRequest, settings: TranslationSettings, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface TranslationProgress {
+  done: number; // Lines answered so far (including failed ones)
+  total: number;
+}
+
+export interface TranslationResult {
+  translations: Map<number, string>; // Line index -> translation, for every line that succeeded
+  failed: number[]; // Line indexes still missing after all retries
+  cancelled: boolean;
+}
+
+const SETTINGS_KEY = 'vibeflow.translationSettings';
+const CHUNK_SIZE = 20; // Lines per request; long songs in one go often come back short
+const MAX_ATTEMPTS = 4; // Requests per chunk, counting the repairs of partial answers
+const RETRY_BASE_DELAY = 1000; // ms, doubled on every failed request
+
+export const buildTranslationPrompt = (request: TranslationRequest): string => {
+  const sourceInstruction = request.sourceLang === 'Auto Detect'
+    ? 'Detect the source language automatically.'
+    : `The source language is ${request.sourceLang}.`;
+  const glossary = (request.glossary || []).filter(entry => entry.term.trim());
+  const glossaryRules = glossary.length === 0 ? '' : `
+    Glossary (follow it exactly):
+    ${glossary.map(entry => entry.rendering.trim()
+      ? `- Always translate "${entry.term.trim()}" as "${entry.rendering.trim()}".`
+      : `- Keep "${entry.term.trim()}" untranslated, exactly as written.`).join('\n    ')}
+`;
+  const instructions = request.instructions?.trim() ? `
+    Additional instructions: ${request.instructions.trim()}
+` : '';
+  return `
+    You are a professional lyrics translator.
+    ${sourceInstruction}
+    Translate the text of each of the following song lyric lines into ${request.targetLang}.
+
+    Rules:
+    1. Return ONLY a JSON object with a single property 'translations', an array of objects of the form {"id": number, "text": string}.
+    2. Return exactly one entry for every input id, with the id unchanged.
+    3. Keep the translation concise and poetic suitable for singing/subtitles.
+    4. Do NOT include the original text in the translation strings. Return ONLY the translated text.
+${glossaryRules}${instructions}
+    Input JSON:
+    ${JSON.stringify(request.items)}
+  `;
+};
+
+// Models without a JSON mode tend to wrap the object in ```json fences or a sentence of chatter.
+// Returns the translations found for the expected ids; missing ids are simply absent.
+export const parseTranslationResponse = (text: string, ids: number[]): Map<number, string> => {
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start === -1 || end < start) throw new Error("The response contained no JSON.");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error("The response was not valid JSON.");
+  }
+
+  const translations = Array.isArray(parsed) ? parsed : (parsed as { translations?: unknown })?.translations;
+  if (!Array.isArray(translations)) throw new Error("The response had no 'translations' array.");
+
+  const expected = new Set(ids);
+  const result = new Map<number, string>();
+  translations.forEach((entry, i) => {
+    if (typeof entry === 'string') {
+      // Plain strings carry no id, so they can only be trusted when nothing is missing
+      if (translations.length === ids.length) result.set(ids[i], entry);
+      return;
+    }
+    const id = Number(entry?.id);
+    if (expected.has(id) && typeof entry?.text === 'string') result.set(id, entry.text);
+  });
+  return result;
+};
+
+const geminiProvider: TranslationProvider = {
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  complete: async (prompt, _request, settings, signal) => {
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) throw new Error("API Key not found. Enter one in the settings or configure process.env.API_KEY.");
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: prompt,
+      config: { responseMimeType: 'application/json', abortSignal: signal }
+    });
+    return response.text ?? '';
+  },
+};
+
+// Chat completions API as served by OpenAI, llama.cpp's server, Ollama, LM Studio, vLLM...
+const openAiCompatibleProvider: TranslationProvider = {
+  label: 'OpenAI-compatible endpoint',
+  defaultModel: 'llama3.1',
+  complete: async (prompt, _request, settings, signal) => {
+    if (!settings.endpoint) throw new Error("No endpoint URL set.");
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+    const response = await fetch(`${settings.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.3,
+        response_format: { type: 'json_object' },
+      }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`The endpoint answered ${response.status} ${response.statusText}.`);
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  },
+};
+
+// Deterministic stand-in that needs no network: tags every line with the target language and
+// applies the fixed glossary renderings
+const mockProvider: TranslationProvider = {
+  label: 'Mock (offline)',
+  defaultModel: 'mock',
+  complete: async (_prompt, request) => {
+    const translate = (text: string) => (request.glossary || []).reduce(
+      (result, entry) => entry.term.trim() && entry.rendering.trim() ? result.split(entry.term.trim()).join(entry.rendering.trim()) : result,
+      text
+    );
+    return JSON.stringify({ translations: request.items.map(item => ({ id: item.id, text: `[${request.targetLang}] ${translate(item.text)}` })) });
+  },
+};
+
+export const TRANSLATION_PROVIDERS: Record<TranslationProviderId, TranslationProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  mock: mockProvider,
+};
+
+export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
+  provider: 'gemini',
+  model: geminiProvider.defaultModel,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+// Settings (API key included) live in this browser only
+export const loadTranslationSettings = (): TranslationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const settings = { ...DEFAULT_TRANSLATION_SETTINGS, ...stored };
+    return settings.provider in TRANSLATION_PROVIDERS ? settings : DEFAULT_TRANSLATION_SETTINGS;
+  } catch {
+    return DEFAULT_TRANSLATION_SETTINGS;
+  }
+};
+
+export const saveTranslationSettings = (settings: TranslationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const isAbort = (e: unknown) => (e as Error)?.name === 'AbortError';
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Translation cancelled', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Translation cancelled', 'AbortError'));
+  }, { once: true });
+});
+
+export interface TranslateOptions {
+  sourceLang: string;
+  targetLang: string;
+  settings: TranslationSettings;
+  glossary?: GlossaryEntry[];
+  instructions?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: TranslationProgress) => void;
+}
+
+// Translates in chunks of CHUNK_SIZE lines keyed by line index. A failed request is retried with
+// backoff, a partial answer is repaired by asking again for only the missing ids. Never throws for
+// failed lines: whatever succeeded is returned, also after a cancel.
+export const translateLines = async (lines: string[], options: TranslateOptions): Promise<TranslationResult> => {
+  const { sourceLang, targetLang, settings, glossary, instructions, signal, onProgress } = options;
+  const provider = TRANSLATION_PROVIDERS[settings.provider];
+  const items = lines.map((text, id) => ({ id, text })).filter(item => item.text.trim() !== '');
+  const translations = new Map<number, string>();
+  const failed: number[] = [];
+  let done = 0;
+  onProgress?.({ done, total: items.length });
+
+  try {
+    for (let start = 0; start < items.length; start += CHUNK_SIZE) {
+      let pending = items.slice(start, start + CHUNK_SIZE);
+      let failures = 0;
+      let lastError: unknown = null;
+
+      for (let attempt = 0; attempt < MAX_ATTEMPTS && pending.length > 0; attempt++) {
+        if (failures > 0) await wait(RETRY_BASE_DELAY * 2 ** (failures - 1), signal);
+        if (signal?.aborted) throw new DOMException('Translation cancelled', 'AbortError');
+        try {
+          const request = { items: pending, sourceLang, targetLang, glossary, instructions };
+          const raw = await provider.complete(buildTranslationPrompt(request), request, settings, signal);
+          const answered = parseTranslationResponse(raw, pending.map(item => item.id));
+          answered.forEach((text, id) => translations.set(id, text));
+          pending = pending.filter(item => !answered.has(item.id));
+          done += answered.size;
+          onProgress?.({ done, total: items.length });
+          if (answered.size === 0) failures++;
+        } catch (e) {
+          if (isAbort(e)) throw e;
+          console.warn("Translation request failed", e);
+          lastError = e;
+          failures++;
+        }
+      }
+
+      if (pending.length > 0) {
+        if (lastError && translations.size === 0) {
+          // Nothing has worked at all: the settings are most likely wrong, so say why
+          throw lastError;
+        }
+        failed.push(...pending.map(item => item.id));
+        done += pending.length;
+        onProgress?.({ done, total: items.length });
+      }
+    }
+  } catch (e) {
+    if (!isAbort(e)) throw e;
+    return { translations, failed, cancelled: true };
+  }
+
+  return { translations, failed, cancelled: false };
+};
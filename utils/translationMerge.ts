@@ -0,0 +1,68 @@
+import { LrcLine, PendingTranslation } from '../types';
+
+// Two candidates whose distances differ by less than this are too close to call
+const AMBIGUITY_MARGIN = 0.15;
+
+export interface TranslationMergeResult {
+  lines: LrcLine[];
+  pending: PendingTranslation[];
+}
+
+const createPending = (line: LrcLine, track: string, reason: PendingTranslation['reason']): PendingTranslation => ({
+  id: Math.random().toString(36).substr(2, 9),
+  time: line.time,
+  text: line.text,
+  track,
+  reason,
+});
+
+// Attach a separately timed translation to the original lines by nearest timestamp.
+// Lines that match nothing within `tolerance`, or that cannot be placed unambiguously,
+// are returned as pending instead of being dropped.
+export const mergeTranslationByTime = (
+  original: LrcLine[],
+  translated: LrcLine[],
+  track: string,
+  tolerance: number
+): TranslationMergeResult => {
+  const pending: PendingTranslation[] = [];
+  // Original index -> best claim so far
+  const claims = new Map<number, { line: LrcLine; distance: number }>();
+
+  translated.forEach(tLine => {
+    if (tLine.text.trim() === '') return;
+
+    const candidates = original
+      .map((line, index) => ({ index, distance: Math.abs(line.time - tLine.time), line }))
+      .filter(c => c.line.text.trim() !== '' && c.distance <= tolerance)
+      .sort((a, b) => a.distance - b.distance);
+
+    if (candidates.length === 0) {
+      pending.push(createPending(tLine, track, 'unmatched'));
+      return;
+    }
+
+    const [best, second] = candidates;
+    if (second && second.line.time !== best.line.time && second.distance - best.distance < AMBIGUITY_MARGIN) {
+      pending.push(createPending(tLine, track, 'ambiguous'));
+      return;
+    }
+
+    // Two translated lines competing for one original: the closer one wins
+    const existing = claims.get(best.index);
+    if (existing) {
+      const loser = existing.distance <= best.distance ? tLine : existing.line;
+      pending.push(createPending(loser, track, 'ambiguous'));
+      if (loser === tLine) return;
+    }
+    claims.set(best.index, { line: tLine, distance: best.distance });
+  });
+
+  const lines = original.map((line, index) => {
+    const claim = claims.get(index);
+    if (!claim) return line;
+    return { ...line, translations: { ...line.translations, [track]: claim.line.text } };
+  });
+
+  return { lines, pending: pending.sort((a, b) => a.time - b.time) };
+};
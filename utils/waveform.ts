@@ -0,0 +1,72 @@
+// Decoding and peak extraction for the Lyric Studio waveform
+
+export const PEAKS_PER_SECOND = 200;
+
+export interface WaveformData {
+  peaks: Float32Array; // Absolute max sample of all channels, one value per bucket
+  peaksPerSecond: number;
+  duration: number;
+}
+
+export const decodeAudio = async (src: string): Promise<AudioBuffer> => {
+  const response = await fetch(src);
+  const data = await response.arrayBuffer();
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  try {
+    return await ctx.decodeAudioData(data);
+  } finally {
+    ctx.close();
+  }
+};
+
+// Decoding a whole song is slow, so each source's peaks are kept until the source is revoked.
+// Only the peaks: a decoded AudioBuffer of a song is tens of MB.
+const waveformCache = new Map<string, Promise<WaveformData>>();
+
+export const loadWaveform = (src: string): Promise<WaveformData> => {
+  const cached = waveformCache.get(src);
+  if (cached) return cached;
+
+  const promise = decodeAudio(src).then(buffer => computePeaks(buffer));
+  waveformCache.set(src, promise);
+  promise.catch(() => waveformCache.delete(src)); // Allow a retry after a failure
+  return promise;
+};
+
+// Call wherever an audio object URL is revoked
+export const evictWaveform = (src: string) => {
+  waveformCache.delete(src);
+};
+
+export const computePeaks = (buffer: AudioBuffer, peaksPerSecond: number = PEAKS_PER_SECOND): WaveformData => {
+  const bucketSize = Math.max(1, Math.floor(buffer.sampleRate / peaksPerSecond));
+  const bucketCount = Math.ceil(buffer.length / bucketSize);
+  const peaks = new Float32Array(bucketCount);
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const samples = buffer.getChannelData(c);
+    for (let b = 0; b < bucketCount; b++) {
+      const end = Math.min(samples.length, (b + 1) * bucketSize);
+      let max = peaks[b];
+      for (let i = b * bucketSize; i < end; i++) {
+        const v = Math.abs(samples[i]);
+        if (v > max) max = v;
+      }
+      peaks[b] = max;
+    }
+  }
+
+  return { peaks, peaksPerSecond: buffer.sampleRate / bucketSize, duration: buffer.duration };
+};
+
+// Loudest peak between two times, for drawing one pixel column
+export const getPeak = (data: WaveformData, from: number, to: number): number => {
+  const start = Math.max(0, Math.floor(from * data.peaksPerSecond));
+  const end = Math.min(data.peaks.length, Math.max(start + 1, Math.ceil(to * data.peaksPerSecond)));
+  let max = 0;
+  for (let i = start; i < end; i++) {
+    if (data.peaks[i] > max) max = data.peaks[i];
+  }
+  return max;
+};